@@ -1,4 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { describeMeshIssues, type MeshHealthReport } from '@/lib/mesh-analysis';
+import { describeRepairs, type MeshRepairSummary } from '@/lib/mesh-repair';
+import { describeShells, type MeshShell } from '@/lib/mesh-shells';
+import { describeStability, describeStabilityIssues, type StabilityReport } from '@/lib/stability';
+import { formatTaxRate, type TaxLine } from '@/lib/tax';
+import type { SlicerReport } from '@/lib/parsers/gcode';
+import type { SlicerProject } from '@/lib/parsers/three-mf-project';
+import type { PartEstimate } from '@/lib/3d-utils';
+import { formatDimensions } from '@/lib/build-volume';
+import { formatPrice, isCurrencyCode } from '@/lib/currency';
+import type { OrderFileSummary } from '@/lib/upload-files';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,21 +25,162 @@ export async function POST(request: NextRequest) {
       color: formData.get('color') as string,
       infill: formData.get('infill') as string,
       layerHeight: formData.get('layerHeight') as string,
+      supports: formData.get('supports') as string || 'auto',
+      overhangAngle: formData.get('overhangAngle') as string || '',
       quantity: formData.get('quantity') as string,
       speed: formData.get('speed') as string,
+      modelUnit: formData.get('modelUnit') as string || 'millimeter',
+      scalePercent: formData.get('scalePercent') as string || '100',
+      scaleFactor: formData.get('scaleFactor') as string || '1',
       delivery: formData.get('delivery') as string,
       deliveryAddress: formData.get('deliveryAddress') as string || '',
       deliveryDistance: formData.get('deliveryDistance') as string || '',
       volume: formData.get('volume') as string,
       filamentGrams: formData.get('filamentGrams') as string,
       estimatedTime: formData.get('estimatedTime') as string,
+      plates: formData.get('plates') as string || '',
+      supportGrams: formData.get('supportGrams') as string || '0',
+      supportTime: formData.get('supportTime') as string || '0',
       manufacturingPrice: formData.get('manufacturingPrice') as string,
+      materialPrice: formData.get('materialPrice') as string || '0',
       deliveryPrice: formData.get('deliveryPrice') as string,
       totalPrice: formData.get('totalPrice') as string,
+      rateCard: formData.get('rateCard') as string || '',
+      printer: formData.get('printer') as string || '',
+      taxId: formData.get('taxId') as string || '',
+      dimensionX: formData.get('dimensionX') as string || '',
+      dimensionY: formData.get('dimensionY') as string || '',
+      dimensionZ: formData.get('dimensionZ') as string || '',
+      fitsBuildVolume: formData.get('fitsBuildVolume') as string || '',
+      buildVolume: formData.get('buildVolume') as string || '',
+      orientation: formData.get('orientation') as string || '',
     };
 
+    // Prices are in the ordering location's currency, CAD when none was sent
+    const currencyField = formData.get('currency');
+    const currency = isCurrencyCode(currencyField) ? currencyField : 'CAD';
+
+    // Sales taxes included in the total; none for tax-exempt customers
+    let taxes: TaxLine[] = [];
+    const taxesField = formData.get('taxes') as string | null;
+    if (taxesField) {
+      try {
+        taxes = JSON.parse(taxesField) as TaxLine[];
+      } catch {
+        console.warn('Ignoring malformed tax lines');
+      }
+    }
+
+    // Mesh health report from the order form, absent when the file could not be parsed
+    let meshHealth: MeshHealthReport | null = null;
+    const meshHealthField = formData.get('meshHealth') as string | null;
+    if (meshHealthField) {
+      try {
+        meshHealth = JSON.parse(meshHealthField) as MeshHealthReport;
+      } catch {
+        console.warn('Ignoring malformed mesh health report');
+      }
+    }
+    const meshIssues = meshHealth ? describeMeshIssues(meshHealth) : [];
+
+    // Thin walls and features found at the ordered size, already described for the customer
+    let thinFeatures: string[] = [];
+    const thinFeaturesField = formData.get('thinFeatures') as string | null;
+    if (thinFeaturesField) {
+      try {
+        thinFeatures = JSON.parse(thinFeaturesField) as string[];
+      } catch {
+        console.warn('Ignoring malformed thin feature list');
+      }
+    }
+
+    // Center of mass and tip-over check in the print orientation
+    let stability: StabilityReport | null = null;
+    const stabilityField = formData.get('stability') as string | null;
+    if (stabilityField) {
+      try {
+        stability = JSON.parse(stabilityField) as StabilityReport;
+      } catch {
+        console.warn('Ignoring malformed stability report');
+      }
+    }
+    const stabilityIssues = stability ? describeStabilityIssues(stability) : [];
+
+    let meshRepairs: string[] = [];
+    const meshRepairsField = formData.get('meshRepairs') as string | null;
+    if (meshRepairsField) {
+      try {
+        meshRepairs = describeRepairs(JSON.parse(meshRepairsField) as MeshRepairSummary);
+      } catch {
+        console.warn('Ignoring malformed mesh repair summary');
+      }
+    }
+
+    // Figures read from uploaded G-code; the quote is based on them
+    let slicerReport: SlicerReport | null = null;
+    const slicerReportField = formData.get('slicerReport') as string | null;
+    if (slicerReportField) {
+      try {
+        slicerReport = JSON.parse(slicerReportField) as SlicerReport;
+      } catch {
+        console.warn('Ignoring malformed slicer report');
+      }
+    }
+
+    // Settings saved in an uploaded slicer project, which prefilled the print options
+    let slicerProject: (Omit<SlicerProject, 'thumbnail'> & { overridden: boolean }) | null = null;
+    const slicerProjectField = formData.get('slicerProject') as string | null;
+    if (slicerProjectField) {
+      try {
+        slicerProject = JSON.parse(slicerProjectField);
+      } catch {
+        console.warn('Ignoring malformed slicer project settings');
+      }
+    }
+    const projectFilaments = slicerProject
+      ? slicerProject.filamentTypes.map((type, index) => {
+          const color = slicerProject?.filamentColors[index];
+          return color ? `${type} (${color})` : type;
+        })
+      : [];
+
+    // Per-part split of the estimate for models with several parts
+    let parts: PartEstimate[] = [];
+    const partsField = formData.get('parts') as string | null;
+    if (partsField) {
+      try {
+        parts = JSON.parse(partsField) as PartEstimate[];
+      } catch {
+        console.warn('Ignoring malformed part list');
+      }
+    }
+
+    // Separate bodies and internal cavities of the model
+    let shells: MeshShell[] = [];
+    const shellsField = formData.get('shells') as string | null;
+    if (shellsField) {
+      try {
+        shells = JSON.parse(shellsField) as MeshShell[];
+      } catch {
+        console.warn('Ignoring malformed shell list');
+      }
+    }
+
+    // Multi-file orders: options and estimate of every file, attached in the same order
+    let orderFiles: OrderFileSummary[] = [];
+    const orderFilesField = formData.get('orderFiles') as string | null;
+    if (orderFilesField) {
+      try {
+        orderFiles = JSON.parse(orderFilesField) as OrderFileSummary[];
+      } catch {
+        console.warn('Ignoring malformed order file list');
+      }
+    }
+    const perFile = orderFiles.length > 0;
+
     const modelImage = formData.get('modelImage') as File | null;
-    const modelFile = formData.get('modelFile') as File | null;
+    const modelFiles = formData.getAll('modelFile').filter((entry): entry is File => entry instanceof File);
+    const modelFile = modelFiles[0] ?? null;
 
     // Convert image to base64 for email
     let imageBase64 = '';
@@ -37,14 +189,11 @@ export async function POST(request: NextRequest) {
       imageBase64 = Buffer.from(imageBuffer).toString('base64');
     }
 
-    // Convert file to base64 for email attachment
-    let fileBase64 = '';
-    let fileMimeType = 'application/octet-stream';
-    if (modelFile) {
-      const fileBuffer = await modelFile.arrayBuffer();
-      fileBase64 = Buffer.from(fileBuffer).toString('base64');
-      fileMimeType = modelFile.type || 'application/octet-stream';
-    }
+    // Convert files to base64 for email attachments
+    const attachments = await Promise.all(modelFiles.map(async (file) => ({
+      filename: file.name || orderData.fileName,
+      content: Buffer.from(await file.arrayBuffer()).toString('base64'),
+    })));
 
     // Helper function to escape HTML
     const escapeHtml = (text: string): string => {
@@ -58,6 +207,16 @@ export async function POST(request: NextRequest) {
       return text.replace(/[&<>"']/g, (m) => map[m]);
     };
 
+    // Only plain hex colors go into inline styles; the project settings come from the client
+    const isSwatchColor = (color: unknown): color is string => typeof color === 'string' && /^#[0-9a-f]{6}$/.test(color);
+
+    const supportLabels: Record<string, string> = {
+      auto: 'Auto (from build plate only)',
+      everywhere: 'Everywhere',
+      none: 'None',
+      slicer: 'As sliced',
+    };
+
     // Format email content
     const emailHtml = `
       <!DOCTYPE html>
@@ -95,8 +254,105 @@ export async function POST(request: NextRequest) {
               <table>
                 <tr><td class="label">File Name:</td><td>${escapeHtml(orderData.fileName)}</td></tr>
                 <tr><td class="label">File Size:</td><td>${escapeHtml(orderData.fileSize)}</td></tr>
+                ${!perFile && modelFile && modelFile.name !== orderData.fileName ? `<tr><td class="label">Attached File:</td><td>${escapeHtml(modelFile.name)}</td></tr>` : ''}
+              </table>
+            </div>
+
+            ${perFile ? `
+            <div class="section">
+              <h2>Files (${orderFiles.length})</h2>
+              ${orderFiles.map((orderFile, index) => {
+                const attached = modelFiles[index];
+                const issues = orderFile.meshHealth ? describeMeshIssues(orderFile.meshHealth) : [];
+                const repairs = orderFile.meshRepairs ? describeRepairs(orderFile.meshRepairs) : [];
+                return `
+              <h3>${index + 1}. ${escapeHtml(orderFile.fileName)}</h3>
+              <table>
+                ${attached && attached.name !== orderFile.fileName ? `<tr><td class="label">Attached File:</td><td>${escapeHtml(attached.name)}</td></tr>` : ''}
+                <tr><td class="label">Material / Color:</td><td>${escapeHtml(orderFile.material.toUpperCase())}, ${escapeHtml(orderFile.color)}</td></tr>
+                <tr><td class="label">Quantity:</td><td>${escapeHtml(String(orderFile.quantity))}</td></tr>
+                <tr><td class="label">Units / Scale:</td><td>${escapeHtml(orderFile.modelUnit)}, ${escapeHtml(String(orderFile.scalePercent))}%</td></tr>
+                ${orderFile.orientation ? `<tr><td class="label">Orientation:</td><td>${escapeHtml(orderFile.orientation)}</td></tr>` : ''}
+                ${orderFile.dimensions ? `<tr><td class="label">Size (X × Y × Z):</td><td>${escapeHtml(formatDimensions(orderFile.dimensions))}${orderFile.fitsBuildVolume === false ? ` <strong>(exceeds ${escapeHtml(orderData.buildVolume)})</strong>` : ''}</td></tr>` : ''}
+                <tr><td class="label">Estimate:</td><td>${escapeHtml(String(orderFile.estimate.volume))} cm³, ${escapeHtml(String(orderFile.estimate.filamentGrams))} g, ${escapeHtml(String(orderFile.estimate.estimatedTime))} minutes on ${escapeHtml(String(orderFile.estimate.plates))} ${orderFile.estimate.plates === 1 ? 'plate' : 'plates'}, ~${escapeHtml(formatPrice(orderFile.estimate.manufacturingPrice, orderFile.estimate.currency))}</td></tr>
+                ${orderFile.slicerReport ? `<tr><td class="label">Sliced G-code:</td><td>${escapeHtml(orderFile.slicerReport.slicer ?? 'Unknown slicer')}${orderFile.slicerReport.printerModel ? ` for ${escapeHtml(orderFile.slicerReport.printerModel)}` : ''}</td></tr>` : ''}
+                ${repairs.length > 0 ? `<tr><td class="label">Repaired:</td><td>${escapeHtml(repairs.join('; '))}</td></tr>` : ''}
+                ${issues.length > 0 ? `<tr><td class="label">Mesh Problems:</td><td>${escapeHtml(issues.join('; '))}</td></tr>` : ''}
+                ${orderFile.estimate.shells ? `<tr><td class="label">Shells:</td><td>${escapeHtml(describeShells(orderFile.estimate.shells))}</td></tr>` : ''}
+                ${orderFile.estimate.stability ? `<tr><td class="label">Stability:</td><td>${escapeHtml([describeStability(orderFile.estimate.stability), ...describeStabilityIssues(orderFile.estimate.stability)].join('; '))}</td></tr>` : ''}
+                ${orderFile.thinFeatures.length > 0 ? `<tr><td class="label">Thin Features:</td><td>${escapeHtml(orderFile.thinFeatures.join('; '))}</td></tr>` : ''}
+              </table>`;
+              }).join('')}
+            </div>
+            ` : ''}
+
+            ${slicerReport ? `
+            <div class="section">
+              <h2>Sliced G-code</h2>
+              <table>
+                <tr><td class="label">Slicer:</td><td>${escapeHtml(slicerReport.slicer ?? 'Unknown')}</td></tr>
+                <tr><td class="label">Sliced For:</td><td>${escapeHtml(slicerReport.printerModel ?? 'Unknown printer')}</td></tr>
+                ${slicerReport.filamentType ? `<tr><td class="label">Filament Type:</td><td>${escapeHtml(slicerReport.filamentType)}</td></tr>` : ''}
+                <tr><td class="label">Reported Print Time:</td><td>${slicerReport.printTime !== null ? `${Math.round(slicerReport.printTime)} minutes` : 'Not reported (measured from toolpath)'}</td></tr>
+                <tr><td class="label">Reported Filament:</td><td>${slicerReport.filamentGrams !== null ? `${escapeHtml(slicerReport.filamentGrams.toFixed(1))} g` : slicerReport.filamentMeters !== null ? `${escapeHtml(slicerReport.filamentMeters.toFixed(2))} m` : 'Not reported (measured from toolpath)'}</td></tr>
+              </table>
+              <p>Check that the G-code suits our printers before printing it.</p>
+            </div>
+            ` : ''}
+
+            ${slicerProject ? `
+            <div class="section">
+              <h2>Slicer Project</h2>
+              <table>
+                <tr><td class="label">Slicer:</td><td>${escapeHtml(slicerProject.slicer)}</td></tr>
+                ${slicerProject.layerHeight !== null ? `<tr><td class="label">Layer Height:</td><td>${escapeHtml(String(slicerProject.layerHeight))} mm</td></tr>` : ''}
+                ${slicerProject.infill !== null ? `<tr><td class="label">Infill:</td><td>${escapeHtml(String(slicerProject.infill))}%</td></tr>` : ''}
+                ${slicerProject.wallCount !== null ? `<tr><td class="label">Walls:</td><td>${escapeHtml(String(slicerProject.wallCount))}</td></tr>` : ''}
+                ${projectFilaments.length > 0 ? `<tr><td class="label">Filaments:</td><td>${escapeHtml(projectFilaments.join(', '))}</td></tr>` : ''}
+                ${slicerProject.objectColors.map((object) => `<tr><td class="label">${escapeHtml(object.name)}:</td><td>${isSwatchColor(object.color) ? `<span style="display:inline-block;width:10px;height:10px;border:1px solid #ccc;background:${object.color}"></span> ` : ''}${escapeHtml(String(object.color))}</td></tr>`).join('')}
+              </table>
+              <p>${slicerProject.overridden ? 'The customer changed some of the imported settings; the print settings below are what they ordered.' : 'The print settings below were taken from the project.'}</p>
+            </div>
+            ` : ''}
+
+            ${meshHealth ? `
+            <div class="section">
+              <h2>Mesh Health</h2>
+              <table>
+                <tr><td class="label">Watertight:</td><td>${meshHealth.watertight ? 'Yes' : '<strong>No</strong> (volume and price may be inaccurate)'}</td></tr>
+                <tr><td class="label">Triangles:</td><td>${escapeHtml(String(meshHealth.triangleCount))}</td></tr>
               </table>
+              ${meshRepairs.length > 0 ? `
+              <p><strong>Automatically repaired</strong> (the attached file is the repaired model):</p>
+              <ul>${meshRepairs.map((repair) => `<li>${escapeHtml(repair)}</li>`).join('')}</ul>
+              ` : ''}
+              ${meshIssues.length > 0
+                ? `<p><strong>Remaining problems:</strong></p><ul>${meshIssues.map((issue) => `<li>${escapeHtml(issue)}</li>`).join('')}</ul>`
+                : '<p>No problems found.</p>'}
             </div>
+            ` : ''}
+
+            ${thinFeatures.length > 0 ? `
+            <div class="section">
+              <h2>Thin Features</h2>
+              <ul>${thinFeatures.map((issue) => `<li>${escapeHtml(issue)}</li>`).join('')}</ul>
+              <p>The customer was warned before ordering. Check these areas before printing.</p>
+            </div>
+            ` : ''}
+
+            ${stability ? `
+            <div class="section">
+              <h2>Stability</h2>
+              <table>
+                <tr><td class="label">Center of Mass:</td><td>${escapeHtml(stability.centerOfMass.z.toFixed(1))} mm above the bed, ${escapeHtml(Math.hypot(stability.centerOfMass.x, stability.centerOfMass.y).toFixed(1))} mm off the footprint center</td></tr>
+                <tr><td class="label">Base:</td><td>${escapeHtml(stability.contactArea.toFixed(0))} mm², ${escapeHtml(stability.baseWidth.toFixed(1))} mm at its narrowest</td></tr>
+                <tr><td class="label">Result:</td><td>${escapeHtml(describeStability(stability))}</td></tr>
+              </table>
+              ${stabilityIssues.length > 0
+                ? `<ul>${stabilityIssues.map((issue) => `<li>${escapeHtml(issue)}</li>`).join('')}</ul><p>The customer was warned before ordering. Plan a brim or supports.</p>`
+                : ''}
+            </div>
+            ` : ''}
 
             ${imageBase64 ? `
             <div class="section">
@@ -110,20 +366,52 @@ export async function POST(request: NextRequest) {
             <div class="section">
               <h2>Model Dimensions</h2>
               <table>
+                ${orderData.dimensionX ? `
+                <tr><td class="label">Size (X × Y × Z):</td><td>${escapeHtml(orderData.dimensionX)} × ${escapeHtml(orderData.dimensionY)} × ${escapeHtml(orderData.dimensionZ)} mm</td></tr>
+                ${orderData.fitsBuildVolume === 'false' ? `<tr><td class="label">Build Volume:</td><td><strong>Exceeds ${escapeHtml(orderData.buildVolume)}</strong></td></tr>` : ''}
+                ` : ''}
                 <tr><td class="label">Volume:</td><td>${escapeHtml(orderData.volume)} cm³</td></tr>
                 <tr><td class="label">Filament Required:</td><td>${escapeHtml(orderData.filamentGrams)} g</td></tr>
                 <tr><td class="label">Estimated Print Time:</td><td>${escapeHtml(orderData.estimatedTime)} minutes</td></tr>
+                ${orderData.plates ? `<tr><td class="label">Build Plates:</td><td>${escapeHtml(orderData.plates)}</td></tr>` : ''}
+                ${parseFloat(orderData.supportGrams) > 0 ? `<tr><td class="label">Supports:</td><td>${escapeHtml(orderData.supportGrams)} g, ${escapeHtml(orderData.supportTime)} minutes (included above)</td></tr>` : ''}
               </table>
             </div>
 
+            ${parts.length > 0 ? `
+            <div class="section">
+              <h2>Parts (${parts.length})</h2>
+              <table>
+                ${parts.map((part) => `<tr><td class="label">${escapeHtml(part.name)}:</td><td>${escapeHtml(String(part.volume))} cm³, ${escapeHtml(String(part.filamentGrams))} g, ~${escapeHtml(formatPrice(part.manufacturingPrice, currency))}</td></tr>`).join('')}
+              </table>
+            </div>
+            ` : ''}
+
+            ${shells.length > 0 ? `
+            <div class="section">
+              <h2>Shells (${escapeHtml(describeShells(shells))})</h2>
+              <table>
+                ${shells.map((shell) => `<tr><td class="label">${shell.kind === 'cavity' ? 'Internal cavity' : 'Body'}:</td><td>${escapeHtml(String(shell.volume))} cm³, ${escapeHtml(formatDimensions(shell.dimensions))}</td></tr>`).join('')}
+              </table>
+            </div>
+            ` : ''}
+
             <div class="section">
               <h2>Print Settings</h2>
               <table>
+                ${perFile ? '' : `
                 <tr><td class="label">Material:</td><td>${escapeHtml(orderData.material.toUpperCase())}</td></tr>
                 <tr><td class="label">Color:</td><td>${escapeHtml(orderData.color.charAt(0).toUpperCase() + orderData.color.slice(1))}</td></tr>
-                <tr><td class="label">Infill:</td><td>${escapeHtml(orderData.infill)}%</td></tr>
+                `}
+                <tr><td class="label">Infill:</td><td>${slicerReport ? 'As sliced' : `${escapeHtml(orderData.infill)}%`}</td></tr>
                 <tr><td class="label">Layer Height:</td><td>${escapeHtml(orderData.layerHeight)} mm</td></tr>
+                <tr><td class="label">Supports:</td><td>${escapeHtml(supportLabels[orderData.supports] ?? orderData.supports)}${orderData.supports === 'auto' || orderData.supports === 'everywhere' ? ` (overhangs over ${escapeHtml(orderData.overhangAngle)}° from vertical)` : ''}</td></tr>
+                ${perFile ? `<tr><td class="label">Material, Color, Quantity, Scale:</td><td>Per file, see Files above</td></tr>` : `
                 <tr><td class="label">Quantity:</td><td>${escapeHtml(orderData.quantity)}</td></tr>
+                <tr><td class="label">Model Units:</td><td>${escapeHtml(orderData.modelUnit)}</td></tr>
+                ${orderData.orientation ? `<tr><td class="label">Orientation:</td><td>${escapeHtml(orderData.orientation)}</td></tr>` : ''}
+                <tr><td class="label">Scale:</td><td>${escapeHtml(orderData.scalePercent)}%${parseFloat(orderData.scaleFactor) !== 1 ? ` (file coordinates × ${escapeHtml(orderData.scaleFactor)})` : ''}</td></tr>
+                `}
                 <tr><td class="label">Speed:</td><td>${escapeHtml(orderData.speed.charAt(0).toUpperCase() + orderData.speed.slice(1))}</td></tr>
                 <tr><td class="label">Delivery:</td><td>${orderData.delivery === 'delivery' ? 'Local Delivery' : 'Pickup'}</td></tr>
                 ${orderData.delivery === 'delivery' && orderData.deliveryAddress ? `
@@ -136,9 +424,14 @@ export async function POST(request: NextRequest) {
             <div class="section">
               <h2>Pricing</h2>
               <table>
-                <tr><td class="label">Manufacturing Price:</td><td>$${escapeHtml(orderData.manufacturingPrice)} CAD</td></tr>
-                ${parseFloat(orderData.deliveryPrice) > 0 ? `<tr><td class="label">Delivery Price:</td><td>$${escapeHtml(orderData.deliveryPrice)} CAD</td></tr>` : ''}
-                <tr><td class="label"><strong>Total Price:</strong></td><td><strong>$${escapeHtml(orderData.totalPrice)} CAD</strong></td></tr>
+                <tr><td class="label">Manufacturing Price:</td><td>${escapeHtml(formatPrice(parseFloat(orderData.manufacturingPrice), currency))}</td></tr>
+                ${parseFloat(orderData.materialPrice) > 0 ? `<tr><td class="label">Material:</td><td>${escapeHtml(formatPrice(parseFloat(orderData.materialPrice), currency))} (included above)</td></tr>` : ''}
+                ${parseFloat(orderData.deliveryPrice) > 0 ? `<tr><td class="label">Delivery Price:</td><td>${escapeHtml(formatPrice(parseFloat(orderData.deliveryPrice), currency))}</td></tr>` : ''}
+                ${taxes.map((tax) => `<tr><td class="label">${escapeHtml(tax.name)} (${escapeHtml(formatTaxRate(tax.rate))}):</td><td>${escapeHtml(formatPrice(tax.amount, currency))}</td></tr>`).join('')}
+                ${orderData.taxId ? `<tr><td class="label">Sales Tax:</td><td><strong>Exempt</strong>, tax ID ${escapeHtml(orderData.taxId)} (verify before invoicing)</td></tr>` : ''}
+                <tr><td class="label"><strong>Total Price:</strong></td><td><strong>${escapeHtml(formatPrice(parseFloat(orderData.totalPrice), currency))}</strong></td></tr>
+                ${orderData.rateCard ? `<tr><td class="label">Rate Card:</td><td>${escapeHtml(orderData.rateCard)}</td></tr>` : ''}
+                ${orderData.printer ? `<tr><td class="label">Printer Profile:</td><td>${escapeHtml(orderData.printer)}</td></tr>` : ''}
               </table>
             </div>
 
@@ -180,14 +473,9 @@ export async function POST(request: NextRequest) {
         from: '3D Print Service <orders@localfab.now>',
         to: [recipientEmail], // Use recipient email from form
         ...(orderData.email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(orderData.email) ? { reply_to: orderData.email } : {}),
-        subject: `Print Request - $${orderData.totalPrice} CAD`,
+        subject: `Print Request - ${formatPrice(parseFloat(orderData.totalPrice), currency)}`,
         html: emailHtml,
-        ...(modelFile && fileBase64 ? {
-          attachments: [{
-            filename: orderData.fileName,
-            content: fileBase64,
-          }]
-        } : {}),
+        ...(attachments.length > 0 ? { attachments } : {}),
       }),
     });
 
@@ -7,6 +7,7 @@ export default function SFPage() {
         enableDelivery={false}
         recipientEmail="ari@3e8robotics.com"
         locationName="San Francisco 3D print"
+        location="sf"
       />
     </main>
   );
@@ -7,6 +7,7 @@ export default function TorontoPage() {
         enableDelivery={true}
         recipientEmail="david@3e8robotics.com"
         locationName="Local Toronto 3D print"
+        location="toronto"
       />
     </main>
   );
@@ -0,0 +1,78 @@
+"use client";
+
+import { AlertTriangle, Download, Wrench } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { describeMeshIssues, type MeshHealthReport } from "@/lib/mesh-analysis";
+import { countRepairs, describeRepairs, type MeshRepairSummary } from "@/lib/mesh-repair";
+
+interface MeshHealthPanelProps {
+  health: MeshHealthReport | null;
+  solid: boolean; // false when the volume could not be measured from the mesh
+  repairs: MeshRepairSummary | null;
+  repairedFile?: { url: string; name: string } | null; // download of the repaired mesh
+  className?: string;
+}
+
+export function MeshHealthPanel({ health, solid, repairs, repairedFile, className }: MeshHealthPanelProps) {
+  const issues = health ? describeMeshIssues(health) : [];
+  const repairCount = repairs ? countRepairs(repairs) : 0;
+  if (issues.length === 0 && solid && repairCount === 0) return null;
+
+  const volumeUnreliable = !solid || (health !== null && !health.watertight);
+
+  return (
+    <div className={`flex flex-col gap-3 ${className ?? ""}`}>
+      {repairs && repairCount > 0 && (
+        <Alert className="border-primary/40 bg-primary/5 [&>svg]:text-primary">
+          <Wrench className="h-4 w-4" />
+          <AlertTitle className="text-sm">
+            Repaired {repairCount} {repairCount === 1 ? "issue" : "issues"}
+          </AlertTitle>
+          <AlertDescription className="text-xs text-muted-foreground">
+            <p>
+              {describeRepairs(repairs).join(" · ")}.
+              {repairedFile ? " The quote and your order use the repaired model." : " The quote uses the repaired model."}
+            </p>
+            {repairedFile && (
+              <a
+                href={repairedFile.url}
+                download={repairedFile.name}
+                onClick={(e) => e.stopPropagation()}
+                className="inline-flex items-center gap-1 mt-1.5 text-primary hover:underline"
+              >
+                <Download className="w-3 h-3" />
+                Download repaired model
+              </a>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {(issues.length > 0 || volumeUnreliable) && (
+        <Alert className="border-amber-500/50 bg-amber-500/5 [&>svg]:text-amber-500">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle className="text-sm">
+            {health ? "This model has mesh problems" : "This model could not be read"}
+          </AlertTitle>
+          <AlertDescription className="text-xs text-muted-foreground">
+            {issues.length > 0 && (
+              <ul className="list-disc pl-4 my-1.5 space-y-0.5">
+                {issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+            {volumeUnreliable && (
+              <p>
+                {solid
+                  ? "The volume, filament and price estimates may be inaccurate."
+                  : "The volume was estimated from the file size, so the quote is a rough guess."}
+                {" We'll review the file before printing and contact you if it needs fixing."}
+              </p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 "use client";
 
 import React from "react";
-import { useState, useRef, useEffect, type DragEvent, type ChangeEvent } from "react";
-import { Upload, X, CheckCircle2, Loader2 } from "lucide-react";
+import { useState, useRef, useEffect, useMemo, type DragEvent, type ChangeEvent } from "react";
+import { Upload, X, CheckCircle2, Loader2, AlertTriangle, FileCode, SlidersHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -17,20 +18,37 @@ import {
   SelectLabel,
   SelectSeparator,
 } from "@/components/ui/select";
-import { calculatePrintEstimate, type PrintEstimate } from "@/lib/3d-utils";
+import { combineEstimates, type PrintEstimate } from "@/lib/3d-utils";
+import { formatPrice } from "@/lib/currency";
+import { estimateModel, exportRepairedModel, isAbortError, loadModel, retainModels, type EstimateStage, type LoadedModel } from "@/lib/estimate-client";
+import { isCadModelFile, isGcodeFile } from "@/lib/mesh-parser";
+import { countRepairs } from "@/lib/mesh-repair";
+import { DEFAULT_MATERIAL, MATERIALS, getMaterial, isCatalogMaterial, type Material } from "@/lib/materials";
+import { describeShells } from "@/lib/mesh-shells";
+import { nestParts } from "@/lib/nesting";
+import { describeRotation, isIdentityRotation, type OrientationCandidate } from "@/lib/orientation";
+import { getActiveRateCard, type PricingLocation } from "@/lib/pricing";
+import { getLocationPrinter, type PrinterProfile } from "@/lib/printers";
+import type { SlicerProject } from "@/lib/parsers/three-mf-project";
+import { describeStabilityIssues } from "@/lib/stability";
+import { LOCATION_TAX_RULES, formatTaxRate } from "@/lib/tax";
+import { DEFAULT_OVERHANG_ANGLE, type SupportMode } from "@/lib/supports";
+import { describeThicknessIssues } from "@/lib/thickness";
+import { MAX_ORDER_FILES, UPLOAD_FILE_ACCEPT, collectModelFiles, type OrderFileSummary } from "@/lib/upload-files";
+import {
+  checkBuildVolumeFit,
+  formatBuildVolume,
+  formatDimensions,
+  getToolpathDimensions,
+  scaleDimensions,
+  type ModelDimensions,
+} from "@/lib/build-volume";
+import { MODEL_UNITS, getModelScale, suggestModelUnits, type ModelUnit } from "@/lib/model-units";
 import { Card, CardContent } from "@/components/ui/card";
-import { ModelViewer } from "@/components/model-viewer";
-
-const materials = [
-  { value: "pla", label: "PLA" },
-  { value: "petg", label: "PETG", italic: true, note: "upon request" },
-  { value: "tpu", label: "TPU", italic: true, note: "upon request" },
-];
-
-const colors = [
-  { value: "black", label: "Black", swatch: "#1a1a1a" },
-  { value: "white", label: "White", swatch: "#e8e8e8" },
-];
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ModelViewer, PART_COLORS } from "@/components/model-viewer";
+import { MeshHealthPanel } from "@/components/mesh-health-panel";
 
 const infillOptions = [
   { value: "15", label: "15% — Light" },
@@ -45,12 +63,140 @@ const layerOptions = [
   { value: "0.12", label: "0.12 mm — Fine" },
 ];
 
+const supportOptions: { value: SupportMode; label: string }[] = [
+  { value: "auto", label: "Auto — From build plate" },
+  { value: "everywhere", label: "Everywhere" },
+  { value: "none", label: "None" },
+];
+
 const speedOptions = [
   { value: "instant", label: "Instant", description: "Same day" },
   { value: "fast", label: "Fast", description: "1-2 days" },
   { value: "regular", label: "Regular", description: "1-5 days" },
 ];
 
+const stageLabels: Record<EstimateStage, string> = {
+  reading: "Reading file",
+  parsing: "Parsing and repairing model",
+  analyzing: "Checking mesh",
+  preview: "Simplifying the preview",
+  thickness: "Measuring wall thickness",
+  orienting: "Finding the best orientation",
+  slicing: "Slicing layers",
+  supports: "Finding overhangs",
+  estimating: "Calculating estimates",
+};
+
+// Form values taken from a slicer project 3MF
+interface ProjectFormValues {
+  material?: string;
+  color?: string;
+  infill?: string;
+  layerHeight?: string;
+}
+
+function nearestOption(value: number, options: { value: string }[]): string {
+  return options.reduce((best, option) =>
+    Math.abs(parseFloat(option.value) - value) < Math.abs(parseFloat(best.value) - value) ? option : best
+  ).value;
+}
+
+/**
+ * Map project settings onto the options we offer: infill and layer height snap
+ * to the nearest option, material and color are only taken when we stock them
+ */
+function getProjectFormValues(project: SlicerProject): ProjectFormValues {
+  const values: ProjectFormValues = {};
+  const filament = project.filamentTypes[0]?.toLowerCase();
+  if (isCatalogMaterial(filament)) {
+    values.material = filament;
+  }
+  if (project.infill !== null) {
+    values.infill = nearestOption(project.infill, infillOptions);
+  }
+  if (project.layerHeight !== null) {
+    values.layerHeight = nearestOption(project.layerHeight, layerOptions);
+  }
+
+  // Only near-black or near-white filament matches a color we stock
+  const hex = project.filamentColors[0];
+  if (hex && /^#[0-9a-f]{6}$/.test(hex)) {
+    const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    const color = luminance < 0.15 ? "black" : luminance > 0.85 ? "white" : null;
+    if (color && getMaterial(values.material ?? DEFAULT_MATERIAL).colors.some((c) => c.value === color)) {
+      values.color = color;
+    }
+  }
+  return values;
+}
+
+// Finest layer height and the turnarounds every material of the order allows
+function getMaterialLimits(materials: Material[]): { minLayerHeight: number; speeds: string[] } {
+  return {
+    minLayerHeight: Math.max(0, ...materials.map((m) => m.minLayerHeight)),
+    speeds: speedOptions.map((o) => o.value).filter((speed) => materials.every((m) => m.speeds.includes(speed))),
+  };
+}
+
+// Options chosen per file; infill, layer height, speed and delivery apply to the whole order
+interface OrderItemOptions {
+  material: string;
+  color: string;
+  quantity: string;
+  modelUnit: ModelUnit;
+  scalePercent: string;
+  orientation: number; // index into the model's suggested orientations, 0 = recommended
+}
+
+const DEFAULT_ITEM_OPTIONS: OrderItemOptions = {
+  material: DEFAULT_MATERIAL,
+  color: "black",
+  quantity: "1",
+  modelUnit: "millimeter",
+  scalePercent: "100",
+  orientation: 0,
+};
+
+// One uploaded file of the order
+interface OrderItem extends OrderItemOptions {
+  id: number;
+  file: File;
+  projectValues: ProjectFormValues | null; // options imported from a slicer project 3MF
+}
+
+// Unit conversion and scale percentage of a file; sliced G-code is printed as is
+function getItemScale(item: OrderItem): number {
+  return isGcodeFile(item.file.name) ? 1 : getModelScale(item.modelUnit, parseFloat(item.scalePercent));
+}
+
+// Print orientation of a file; null for G-code and models that could not be measured
+function getItemOrientation(item: OrderItem, model: LoadedModel | null | undefined): OrientationCandidate | null {
+  return model?.orientations[item.orientation] ?? model?.orientations[0] ?? null;
+}
+
+// Orientation for the shop, or null when the file is printed as uploaded
+function describeItemOrientation(orientation: OrientationCandidate | null): string | null {
+  if (!orientation || isIdentityRotation(orientation.rotation)) return null;
+  return `${orientation.label}: rotate ${describeRotation(orientation.rotation)}`;
+}
+
+// Walls and features of a file too thin to print at its ordered size; empty when it could not be checked
+function getItemThinFeatures(estimate: PrintEstimate | null | undefined, printer: PrinterProfile): string[] {
+  return estimate?.thickness ? describeThicknessIssues(estimate.thickness, printer) : [];
+}
+
+// The repaired mesh replaces the upload when repair changed anything;
+// CAD files are sent unchanged since the shop slices from the B-rep
+function hasRepairedFile(file: File, model: LoadedModel | null): model is LoadedModel {
+  return !isCadModelFile(file.name) && model !== null && model.repairs !== null && countRepairs(model.repairs) > 0;
+}
+
+// The file sent with the order: the repaired mesh, exported by the worker, or the upload as is
+async function getOrderFile(file: File, model: LoadedModel | null): Promise<File> {
+  return hasRepairedFile(file, model) ? exportRepairedModel(model.key, file.name) : file;
+}
+
 const deliveryOptions = [
   { value: "pickup", label: "Pickup", description: "Pick up in North York" },
   { value: "delivery", label: "Local Delivery", description: "North York area delivery" },
@@ -97,37 +243,56 @@ interface OrderFormProps {
   enableDelivery?: boolean;
   recipientEmail?: string;
   locationName?: string;
+  location?: PricingLocation; // selects the rate card quotes are priced with and the printer they're timed on
+  overhangAngle?: number; // degrees from vertical the location's printers can bridge without support
 }
 
 export function OrderForm({ 
   enableDelivery = true, 
   recipientEmail = 'david@3e8robotics.com',
-  locationName = 'Local Toronto 3D print'
+  locationName = 'Local Toronto 3D print',
+  location = 'toronto',
+  overhangAngle = DEFAULT_OVERHANG_ANGLE,
 }: OrderFormProps = {}) {
-  const [file, setFile] = useState<File | null>(null);
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [activeItemId, setActiveItemId] = useState<number | null>(null);
+  const [newItemOptions, setNewItemOptions] = useState<OrderItemOptions>(DEFAULT_ITEM_OPTIONS);
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
   const [dragOver, setDragOver] = useState(false);
   const [submitted, setSubmitted] = useState(false);
-  const [selectedColor, setSelectedColor] = useState("black");
-  const [material, setMaterial] = useState("pla");
   const [infill, setInfill] = useState("25");
   const [layerHeight, setLayerHeight] = useState("0.2");
-  const [quantity, setQuantity] = useState("1");
+  const [supports, setSupports] = useState<SupportMode>("auto");
   const [speed, setSpeed] = useState("regular");
   const [delivery, setDelivery] = useState("pickup");
   const [selectedNeighborhood, setSelectedNeighborhood] = useState<string>("");
   const [deliveryAddress, setDeliveryAddress] = useState("");
   const [deliveryDistance, setDeliveryDistance] = useState<number | null>(null);
-  const [estimate, setEstimate] = useState<PrintEstimate | null>(null);
+  // Parsed models and estimates by item id; a null model means the file could not be read
+  const [models, setModels] = useState<Record<number, LoadedModel | null>>({});
+  const [estimates, setEstimates] = useState<Record<number, PrintEstimate>>({});
+  // Why a loaded file could not be estimated, by item id
+  const [estimateErrors, setEstimateErrors] = useState<Record<number, string>>({});
   const [calculating, setCalculating] = useState(false);
+  const [progress, setProgress] = useState<{ itemId: number; stage: EstimateStage; value: number | null } | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [notes, setNotes] = useState("");
+  const [taxExempt, setTaxExempt] = useState(false);
+  const [taxId, setTaxId] = useState("");
   const fileRef = useRef<HTMLInputElement>(null);
   const nameInputRef = useRef<HTMLInputElement>(null);
   const emailInputRef = useRef<HTMLInputElement>(null);
   const notesInputRef = useRef<HTMLTextAreaElement>(null);
   const captureScreenshotRef = useRef<(() => Promise<string | null>) | null>(null);
+  const nextItemIdRef = useRef(1);
+  const itemLoadsRef = useRef(new Map<number, AbortController>());
+  const rateCard = useMemo(() => getActiveRateCard(location), [location]);
+  const printer = useMemo(() => getLocationPrinter(location), [location]);
+  const { buildVolume } = printer;
+  // Orders are only quoted tax-exempt once a tax ID is given
+  const exemptFromTax = taxExempt && taxId.trim() !== "";
   
   // Business location in Toronto (example coordinates - replace with actual location)
   const BUSINESS_LOCATION = {
@@ -220,53 +385,326 @@ export function OrderForm({
     }
   }, [enableDelivery, delivery, selectedNeighborhood, deliveryAddress, calculateDistanceKm]);
 
-  // Calculate estimates when file or settings change
+  // Cancel model parsing still running when the form goes away
+  useEffect(() => {
+    const loads = itemLoadsRef.current;
+    return () => {
+      loads.forEach((controller) => controller.abort());
+      loads.clear();
+    };
+  }, []);
+
+  // Keep the parsed models of the files in the order cached, so re-estimating doesn't parse them again
+  useEffect(() => {
+    retainModels(Object.values(models).flatMap((loaded) => (loaded ? [loaded.key] : [])));
+  }, [models]);
+
+  function updateItem(id: number, patch: Partial<OrderItem>) {
+    setItems((previous) => previous.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }
+
+  /**
+   * Add uploaded files (ZIP archives unpacked) to the order and parse each in the worker
+   */
+  async function addFiles(uploaded: File[]) {
+    const { files, skipped } = await collectModelFiles(uploaded, MAX_ORDER_FILES - items.length);
+    setSkippedFiles(skipped);
+    if (files.length === 0) return;
+
+    const added = files.map((file): OrderItem => ({
+      ...newItemOptions,
+      id: nextItemIdRef.current++,
+      file,
+      projectValues: null,
+    }));
+    setItems((previous) => [...previous, ...added]);
+    setActiveItemId(added[0].id);
+
+    for (const item of added) {
+      const controller = new AbortController();
+      itemLoadsRef.current.set(item.id, controller);
+
+      loadModel(item.file, {
+        overhangAngle,
+        signal: controller.signal,
+        onProgress: (stage, value) => setProgress({ itemId: item.id, stage, value }),
+      })
+        .then((loaded) => {
+          if (controller.signal.aborted) return; // removed while it was being parsed
+          setModels((previous) => ({ ...previous, [item.id]: loaded }));
+          // A unit picked before upload only applies to unitless files; the parser already converted the rest to mm
+          if (loaded.units !== 'unknown' && item.modelUnit !== 'millimeter') {
+            updateItem(item.id, { modelUnit: 'millimeter' });
+          }
+          // Quote G-code in the material it was sliced for, when we offer it
+          const slicedMaterial = loaded.gcode?.report.filamentType?.toLowerCase();
+          if (slicedMaterial && isCatalogMaterial(slicedMaterial)) {
+            updateItem(item.id, { material: slicedMaterial });
+          }
+          // Start from the settings saved in a slicer project; the user can still change them
+          if (loaded.project) {
+            const values = getProjectFormValues(loaded.project);
+            applyProjectValues(item.id, values);
+            updateItem(item.id, { projectValues: values });
+          }
+        })
+        .catch((error) => {
+          if (isAbortError(error)) return;
+          console.error(`Error loading ${item.file.name}:`, error);
+          setModels((previous) => ({ ...previous, [item.id]: null }));
+        })
+        .finally(() => {
+          itemLoadsRef.current.delete(item.id);
+          setProgress((current) => (current?.itemId === item.id ? null : current));
+        });
+    }
+  }
+
+  function removeItem(id: number) {
+    itemLoadsRef.current.get(id)?.abort();
+    itemLoadsRef.current.delete(id);
+    const remaining = items.filter((item) => item.id !== id);
+    setItems(remaining);
+    // Drop the parsed mesh; the worker keeps its own cache
+    setModels((previous) => {
+      const { [id]: _removed, ...rest } = previous;
+      return rest;
+    });
+    if (activeItemId === id) {
+      setActiveItemId(remaining[0]?.id ?? null);
+    }
+  }
+
+  // The print options below edit the selected file; before any upload they
+  // set the defaults for new files. Infill, layer height, speed and delivery
+  // apply to the whole order.
+  const activeItem = items.find((item) => item.id === activeItemId) ?? null;
+  const { material, color: selectedColor, quantity, modelUnit, scalePercent } = activeItem ?? newItemOptions;
+  const setItemOptions = (patch: Partial<OrderItemOptions>) => {
+    if (activeItem) updateItem(activeItem.id, patch);
+    else setNewItemOptions((previous) => ({ ...previous, ...patch }));
+  };
+  // Keep the color when the new material comes in it
+  const setMaterial = (value: string) => {
+    const colors = getMaterial(value).colors;
+    setItemOptions(colors.some((c) => c.value === selectedColor) ? { material: value } : { material: value, color: colors[0].value });
+  };
+  const setSelectedColor = (value: string) => setItemOptions({ color: value });
+  const setQuantity = (value: string) => setItemOptions({ quantity: value });
+  const setModelUnit = (value: ModelUnit) => setItemOptions({ modelUnit: value });
+  const setScalePercent = (value: string) => setItemOptions({ scalePercent: value });
+  const setOrientation = (value: number) => setItemOptions({ orientation: value });
+
+  // Layer height and speed apply to the whole order, so the most limited material of it decides
+  const orderMaterials = (items.length > 0 ? items : [newItemOptions]).map((item) => item.material).join(",");
+  const materialLimits = useMemo(() => getMaterialLimits(orderMaterials.split(",").map(getMaterial)), [orderMaterials]);
   useEffect(() => {
-    if (!file) {
-      setEstimate(null);
+    if (parseFloat(layerHeight) < materialLimits.minLayerHeight) {
+      const allowed = layerOptions.filter((o) => parseFloat(o.value) >= materialLimits.minLayerHeight);
+      if (allowed.length > 0) setLayerHeight(nearestOption(materialLimits.minLayerHeight, allowed));
+    }
+    if (!materialLimits.speeds.includes(speed) && materialLimits.speeds.length > 0) {
+      setSpeed(materialLimits.speeds[materialLimits.speeds.length - 1]);
+    }
+  }, [materialLimits, layerHeight, speed]);
+
+  const file = activeItem?.file ?? null;
+  const model = activeItem ? models[activeItem.id] ?? null : null;
+  const estimate = activeItem ? estimates[activeItem.id] ?? null : null;
+  const estimateError = activeItem ? estimateErrors[activeItem.id] ?? null : null;
+  const orientations = model?.orientations ?? [];
+  const orientation = activeItem ? getItemOrientation(activeItem, model) : null;
+  const loadingModel = activeItem ? models[activeItem.id] === undefined : false;
+  const progressItem = progress ? items.find((item) => item.id === progress.itemId) : undefined;
+
+  function applyProjectValues(itemId: number, values: ProjectFormValues) {
+    const { infill: projectInfill, layerHeight: projectLayerHeight, ...itemValues } = values;
+    updateItem(itemId, itemValues);
+    if (projectInfill) setInfill(projectInfill);
+    if (projectLayerHeight) setLayerHeight(projectLayerHeight);
+  }
+
+  // Settings imported from a project 3MF, and which of them the user has since changed
+  const project = model?.project ?? null;
+  const projectValues = activeItem?.projectValues ?? null;
+  const currentValues: ProjectFormValues = { material, color: selectedColor, infill, layerHeight };
+  const fromProject = (field: keyof ProjectFormValues) =>
+    projectValues?.[field] !== undefined && projectValues[field] === currentValues[field];
+  const projectOverridden = projectValues
+    ? (Object.keys(projectValues) as (keyof ProjectFormValues)[]).some((field) => !fromProject(field))
+    : false;
+
+  const [projectThumbnailUrl, setProjectThumbnailUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const thumbnail = model?.project?.thumbnail;
+    if (!thumbnail) {
+      setProjectThumbnailUrl(null);
       return;
     }
+    const url = URL.createObjectURL(thumbnail);
+    setProjectThumbnailUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [model]);
+
+  // Sliced G-code fixes the size, infill and layer height of the print
+  const gcodeUpload = file ? isGcodeFile(file.name) : false;
+  const gcode = model?.gcode ?? null;
+
+  // Unit conversion and scale percentage, applied to the estimate, viewer and order
+  const modelScale = activeItem ? getItemScale(activeItem) : 1;
+  const declaredUnit = gcodeUpload ? "millimeter" : model?.units ?? "unknown";
+
+  // Thin features at the ordered size, so scaling the part up can clear them
+  const thinFeatures = useMemo(() => getItemThinFeatures(estimate, printer), [estimate, printer]);
+
+  // Tip-over problems at the ordered infill and orientation
+  const stabilityIssues = estimate?.stability ? describeStabilityIssues(estimate.stability) : [];
+
+  // True size of each part in its print orientation and whether it fits this location's printers
+  const modelDimensionsById = useMemo(() => {
+    const dimensionsById: Record<number, ModelDimensions> = {};
+    for (const item of items) {
+      const loaded = models[item.id];
+      const oriented = getItemOrientation(item, loaded);
+      if (oriented) dimensionsById[item.id] = oriented.dimensions;
+      else if (loaded?.dimensions) dimensionsById[item.id] = loaded.dimensions;
+      else if (loaded?.gcode) dimensionsById[item.id] = getToolpathDimensions(loaded.gcode.toolpath);
+    }
+    return dimensionsById;
+  }, [items, models]);
+  const getItemFit = (item: OrderItem) => {
+    const itemDimensions = modelDimensionsById[item.id];
+    if (!itemDimensions) return null;
+    const scaled = scaleDimensions(itemDimensions, getItemScale(item));
+    return { dimensions: scaled, fit: checkBuildVolumeFit(scaled, buildVolume) };
+  };
 
-    const calculateEstimate = async () => {
+  const modelDimensions = activeItem ? modelDimensionsById[activeItem.id] ?? null : null;
+  const dimensions = modelDimensions ? scaleDimensions(modelDimensions, modelScale) : null;
+  const buildVolumeFit = dimensions ? checkBuildVolumeFit(dimensions, buildVolume) : null;
+  const unitSuggestions = modelDimensions && modelUnit === "millimeter"
+    ? suggestModelUnits(modelDimensions, declaredUnit, Math.max(buildVolume.width, buildVolume.depth, buildVolume.height))
+    : [];
+  const getUnitLabel = (unit: ModelUnit) => MODEL_UNITS.find((u) => u.value === unit)?.label.toLowerCase() ?? unit;
+  const suggestedUnitsLabel = unitSuggestions.map((suggestion) => getUnitLabel(suggestion.unit)).join(" or ");
+  const oversizedItems = items.filter((item) => getItemFit(item)?.fit.fits === false);
+
+  // How the quantity is nested on the plate, as in the estimate; G-code keeps the slicer's layout
+  const quantityCount = parseInt(quantity) || 1;
+  const plateLayout = useMemo(
+    () => (modelDimensions && model?.dimensions && model.solid && quantityCount > 1
+      ? nestParts(scaleDimensions(modelDimensions, modelScale), quantityCount, buildVolume)
+      : null),
+    [modelDimensions, modelScale, model, quantityCount, buildVolume]
+  );
+
+  // Repaired copy for the download link in the mesh health panel
+  const [repairedFile, setRepairedFile] = useState<File | null>(null);
+  useEffect(() => {
+    setRepairedFile(null);
+    if (!file || !hasRepairedFile(file, model)) return;
+    const controller = new AbortController();
+    exportRepairedModel(model.key, file.name, { signal: controller.signal })
+      .then(setRepairedFile)
+      .catch((error) => {
+        if (!isAbortError(error)) console.error(`Error exporting repaired ${file.name}:`, error);
+      });
+    return () => controller.abort();
+  }, [file, model]);
+
+  const [repairedFileUrl, setRepairedFileUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!repairedFile) {
+      setRepairedFileUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(repairedFile);
+    setRepairedFileUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [repairedFile]);
+
+  // Rerun only the estimation step when settings change; every file is
+  // estimated on its own and the order total adds them up
+  useEffect(() => {
+    const loadedItems = items.flatMap((item) => {
+      const loaded = models[item.id];
+      return loaded ? [{ item, key: loaded.key }] : [];
+    });
+    if (loadedItems.length === 0) {
+      setEstimates({});
+      setEstimateErrors({});
+      setCalculating(false);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const calculateEstimates = async () => {
       setCalculating(true);
-      try {
-        const result = await calculatePrintEstimate(file, {
-          material,
-          infill: parseFloat(infill),
-          layerHeight: parseFloat(layerHeight),
-          quantity: parseInt(quantity) || 1,
-          speed,
-          delivery: enableDelivery ? delivery : 'pickup',
-          deliveryDistance: enableDelivery ? deliveryDistance : null,
-        });
-        setEstimate(result);
-      } catch (error) {
-        console.error("Error calculating estimate:", error);
-        setEstimate(null);
-      } finally {
-        setCalculating(false);
+      const results: Record<number, PrintEstimate> = {};
+      const errors: Record<number, string> = {};
+      for (const { item, key } of loadedItems) {
+        try {
+          results[item.id] = await estimateModel(key, {
+            material: item.material,
+            infill: parseFloat(infill),
+            layerHeight: parseFloat(layerHeight),
+            quantity: parseInt(item.quantity) || 1,
+            scale: getItemScale(item),
+            rotation: getItemOrientation(item, models[item.id])?.rotation ?? null,
+            speed,
+            delivery: enableDelivery ? delivery : 'pickup',
+            deliveryDistance: enableDelivery ? deliveryDistance : null,
+            supports,
+            overhangAngle,
+            printer,
+            rateCard,
+            taxExempt: exemptFromTax,
+          }, {
+            signal: controller.signal,
+            onProgress: (stage, value) => setProgress({ itemId: item.id, stage, value }),
+          });
+        } catch (error) {
+          // Superseded by newer settings; that run will finish the job
+          if (isAbortError(error)) return;
+          console.error(`Error calculating estimate for ${item.file.name}:`, error);
+          errors[item.id] = error instanceof Error ? error.message : String(error);
+        }
       }
+      setEstimates(results);
+      setEstimateErrors(errors);
+      setCalculating(false);
+      setProgress(null);
     };
 
-    calculateEstimate();
-  }, [file, material, infill, layerHeight, quantity, speed, delivery, deliveryDistance, enableDelivery]);
+    calculateEstimates();
+    return () => controller.abort();
+  }, [items, models, infill, layerHeight, supports, overhangAngle, printer, rateCard, exemptFromTax, speed, delivery, deliveryDistance, enableDelivery]);
+
+  // The whole order: one file's estimate, or all files added up with delivery charged once
+  const itemEstimates = items.map((item) => estimates[item.id]).filter((result): result is PrintEstimate => Boolean(result));
+  const orderEstimate = items.length > 0 && itemEstimates.length === items.length
+    ? items.length === 1 ? itemEstimates[0] : combineEstimates(itemEstimates, exemptFromTax ? [] : LOCATION_TAX_RULES[rateCard.location])
+    : null;
+  const multipleFiles = items.length > 1;
 
   function handleDrop(e: DragEvent) {
     e.preventDefault();
     setDragOver(false);
-    const dropped = e.dataTransfer.files[0];
-    if (dropped) setFile(dropped);
+    const dropped = Array.from(e.dataTransfer.files);
+    if (dropped.length > 0) addFiles(dropped);
   }
 
   function handleFileChange(e: ChangeEvent<HTMLInputElement>) {
-    const selected = e.target.files?.[0];
-    if (selected) setFile(selected);
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = ""; // allow choosing the same file again after removing it
+    if (selected.length > 0) addFiles(selected);
   }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     
-    if (!file || !estimate || !name || !email) {
+    if (!file || !orderEstimate || !name || !email || oversizedItems.length > 0) {
       return;
     }
 
@@ -284,14 +722,20 @@ export function OrderForm({
       formData.append('name', name);
       formData.append('email', email);
       formData.append('notes', notes);
-      formData.append('fileName', file.name);
-      formData.append('fileSize', `${(file.size / 1024 / 1024).toFixed(2)} MB`);
+      const totalSize = items.reduce((sum, item) => sum + item.file.size, 0);
+      formData.append('fileName', multipleFiles ? `${items.length} files` : file.name);
+      formData.append('fileSize', `${(totalSize / 1024 / 1024).toFixed(2)} MB`);
       formData.append('material', material);
       formData.append('color', selectedColor);
       formData.append('infill', infill);
-      formData.append('layerHeight', layerHeight);
+      formData.append('layerHeight', (!multipleFiles && gcode?.report.layerHeight?.toString()) || layerHeight);
+      formData.append('supports', !multipleFiles && gcodeUpload ? 'slicer' : supports);
+      formData.append('overhangAngle', overhangAngle.toString());
       formData.append('quantity', quantity);
       formData.append('speed', speed);
+      formData.append('modelUnit', modelUnit);
+      formData.append('scalePercent', scalePercent);
+      formData.append('scaleFactor', modelScale.toString());
       formData.append('delivery', delivery);
       if (delivery === 'delivery') {
         formData.append('deliveryAddress', selectedNeighborhood === 'other' ? deliveryAddress : selectedNeighborhood);
@@ -299,14 +743,56 @@ export function OrderForm({
           formData.append('deliveryDistance', deliveryDistance.toFixed(1));
         }
       }
-      formData.append('volume', estimate.volume.toString());
-      formData.append('filamentGrams', estimate.filamentGrams.toString());
-      formData.append('estimatedTime', estimate.estimatedTime.toString());
-      formData.append('manufacturingPrice', estimate.manufacturingPrice.toFixed(2));
-      formData.append('deliveryPrice', estimate.deliveryPrice.toFixed(2));
-      formData.append('totalPrice', estimate.price.toFixed(2));
+      formData.append('volume', orderEstimate.volume.toString());
+      formData.append('filamentGrams', orderEstimate.filamentGrams.toString());
+      formData.append('estimatedTime', orderEstimate.estimatedTime.toString());
+      formData.append('plates', orderEstimate.plates.toString());
+      formData.append('supportGrams', orderEstimate.supportGrams.toString());
+      formData.append('supportTime', orderEstimate.supportTime.toString());
+      formData.append('manufacturingPrice', orderEstimate.manufacturingPrice.toFixed(2));
+      formData.append('deliveryPrice', orderEstimate.deliveryPrice.toFixed(2));
+      formData.append('totalPrice', orderEstimate.price.toFixed(2));
+      formData.append('currency', orderEstimate.currency);
+      formData.append('materialPrice', orderEstimate.materialPrice.toFixed(2));
+      formData.append('taxes', JSON.stringify(orderEstimate.taxes));
+      if (exemptFromTax) {
+        formData.append('taxId', taxId.trim());
+      }
+      formData.append('rateCard', orderEstimate.rateCard);
+      formData.append('printer', orderEstimate.printer);
       formData.append('recipientEmail', recipientEmail);
 
+      if (multipleFiles) {
+        // Every file with its own options and estimate; the files are attached in the same order
+        const orderFiles = items.map((item): OrderFileSummary => {
+          const loaded = models[item.id] ?? null;
+          const sized = getItemFit(item);
+          return {
+            fileName: item.file.name,
+            material: item.material,
+            color: item.color,
+            quantity: parseInt(item.quantity) || 1,
+            modelUnit: item.modelUnit,
+            scalePercent: parseFloat(item.scalePercent) || 100,
+            dimensions: sized?.dimensions ?? null,
+            fitsBuildVolume: sized?.fit.fits ?? null,
+            estimate: estimates[item.id],
+            meshHealth: loaded?.health ?? null,
+            meshRepairs: loaded?.repairs && countRepairs(loaded.repairs) > 0 ? loaded.repairs : null,
+            slicerReport: loaded?.gcode?.report ?? null,
+            orientation: describeItemOrientation(getItemOrientation(item, loaded)),
+            thinFeatures: getItemThinFeatures(estimates[item.id], printer),
+          };
+        });
+        formData.append('orderFiles', JSON.stringify(orderFiles));
+        formData.append('buildVolume', formatBuildVolume(buildVolume));
+        for (const item of items) {
+          formData.append('modelFile', await getOrderFile(item.file, models[item.id] ?? null));
+        }
+      } else {
+        await appendSingleFile(formData);
+      }
+
       // Convert screenshot to File if available
       if (screenshotDataUrl) {
         const response = await fetch(screenshotDataUrl);
@@ -315,9 +801,6 @@ export function OrderForm({
         formData.append('modelImage', screenshotFile);
       }
 
-      // Add the original file
-      formData.append('modelFile', file);
-
       // Send to API
       const response = await fetch('/api/send-order', {
         method: 'POST',
@@ -339,6 +822,50 @@ export function OrderForm({
     }
   }
 
+  // Details of a single-file order, sent as separate fields
+  async function appendSingleFile(formData: FormData) {
+    if (!file || !estimate) return;
+    const orientationNote = describeItemOrientation(orientation);
+    if (orientationNote) {
+      formData.append('orientation', orientationNote);
+    }
+    if (estimate.parts) {
+      formData.append('parts', JSON.stringify(estimate.parts));
+    }
+    if (estimate.shells) {
+      formData.append('shells', JSON.stringify(estimate.shells));
+    }
+    if (dimensions && buildVolumeFit) {
+      formData.append('dimensionX', dimensions.x.toFixed(2));
+      formData.append('dimensionY', dimensions.y.toFixed(2));
+      formData.append('dimensionZ', dimensions.z.toFixed(2));
+      formData.append('fitsBuildVolume', String(buildVolumeFit.fits));
+      formData.append('buildVolume', formatBuildVolume(buildVolume));
+    }
+    if (model?.health) {
+      formData.append('meshHealth', JSON.stringify(model.health));
+    }
+    if (model?.repairs) {
+      formData.append('meshRepairs', JSON.stringify(model.repairs));
+    }
+    if (thinFeatures.length > 0) {
+      formData.append('thinFeatures', JSON.stringify(thinFeatures));
+    }
+    if (estimate.stability) {
+      formData.append('stability', JSON.stringify(estimate.stability));
+    }
+    if (gcode) {
+      formData.append('slicerReport', JSON.stringify(gcode.report));
+    }
+    if (project) {
+      const { thumbnail: _thumbnail, ...settings } = project;
+      formData.append('slicerProject', JSON.stringify({ ...settings, overridden: projectOverridden }));
+    }
+
+    // Add the repaired model when repair changed anything, otherwise the original file
+    formData.append('modelFile', repairedFile ?? await getOrderFile(file, model));
+  }
+
   if (submitted) {
     return (
       <div className="flex-1 flex flex-col px-6 py-12 md:py-20">
@@ -362,7 +889,9 @@ export function OrderForm({
               className="mt-8 bg-primary text-primary-foreground hover:bg-primary/90"
               onClick={() => {
                 setSubmitted(false);
-                setFile(null);
+                setItems([]);
+                setActiveItemId(null);
+                setModels({});
               }}
             >
               Submit another
@@ -388,7 +917,7 @@ export function OrderForm({
               Upload your model, pick your options, get a quote and request a payment link.
             </p>
             <p className="text-xs text-muted-foreground">
-              Build plate: 400×400×400 mm
+              Build plate: {formatBuildVolume(buildVolume)}
             </p>
           </div>
         </div>
@@ -430,52 +959,336 @@ export function OrderForm({
               <input
                 ref={fileRef}
                 type="file"
-                accept=".stl,.obj,.3mf"
+                accept={UPLOAD_FILE_ACCEPT}
+                multiple
                 onChange={handleFileChange}
                 className="sr-only"
               />
 
               {file ? (
                 <div className="w-full">
-                  <div className="flex items-center gap-3 mb-3">
-                    <div className="w-10 h-10 rounded bg-primary/10 flex items-center justify-center">
-                      {calculating ? (
-                        <Loader2 className="w-4 h-4 text-primary animate-spin" />
-                      ) : (
-                        <Upload className="w-4 h-4 text-primary" />
-                      )}
-                    </div>
-                    <div className="flex-1">
-                      <p className="text-sm font-medium">{file.name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {(file.size / 1024 / 1024).toFixed(2)} MB
-                      </p>
+                  {multipleFiles ? (
+                    <ul className="flex flex-col gap-1.5 mb-3" onClick={(e) => e.stopPropagation()}>
+                      {items.map((item) => {
+                        const itemModel = models[item.id];
+                        const itemEstimate = estimates[item.id];
+                        const oversized = getItemFit(item)?.fit.fits === false;
+                        return (
+                          <li
+                            key={item.id}
+                            className={`flex items-center gap-3 rounded-md border px-3 py-2 ${
+                              item.id === activeItem?.id ? "border-primary bg-primary/10" : "border-border bg-card"
+                            }`}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => setActiveItemId(item.id)}
+                              className="flex-1 min-w-0 text-left"
+                            >
+                              <p className="text-sm font-medium truncate">{item.file.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {[
+                                  getMaterial(item.material).label,
+                                  getMaterial(item.material).colors.find((c) => c.value === item.color)?.label,
+                                  `${parseInt(item.quantity) || 1}x`,
+                                ].filter(Boolean).join(" · ")}
+                              </p>
+                            </button>
+                            <span className={`text-xs whitespace-nowrap ${oversized || itemModel === null || estimateErrors[item.id] ? "text-destructive" : ""}`}>
+                              {itemModel === undefined || calculating ? (
+                                <Loader2 className="w-3.5 h-3.5 text-primary animate-spin" />
+                              ) : itemModel === null ? (
+                                "Could not read"
+                              ) : oversized ? (
+                                "Too large"
+                              ) : estimateErrors[item.id] ? (
+                                "Could not estimate"
+                              ) : itemEstimate ? (
+                                `~${formatPrice(itemEstimate.manufacturingPrice, itemEstimate.currency, false)}`
+                              ) : null}
+                            </span>
+                            <button
+                              type="button"
+                              aria-label={`Remove ${item.file.name}`}
+                              onClick={() => removeItem(item.id)}
+                              className="p-1 rounded hover:bg-secondary"
+                            >
+                              <X className="w-4 h-4 text-muted-foreground" />
+                            </button>
+                          </li>
+                        );
+                      })}
+                      <li className="text-xs text-muted-foreground pt-1">
+                        {items.length} files · drop more here or click to add (up to {MAX_ORDER_FILES})
+                      </li>
+                    </ul>
+                  ) : activeItem && (
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className="w-10 h-10 rounded bg-primary/10 flex items-center justify-center">
+                        {loadingModel || calculating ? (
+                          <Loader2 className="w-4 h-4 text-primary animate-spin" />
+                        ) : (
+                          <Upload className="w-4 h-4 text-primary" />
+                        )}
+                      </div>
+                      <div className="flex-1">
+                        <p className="text-sm font-medium">{file.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {(file.size / 1024 / 1024).toFixed(2)} MB
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        aria-label="Remove file"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          removeItem(activeItem.id);
+                        }}
+                        className="p-1 rounded hover:bg-secondary"
+                      >
+                        <X className="w-4 h-4 text-muted-foreground" />
+                      </button>
                     </div>
-                    <button
-                      type="button"
-                      aria-label="Remove file"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setFile(null);
-                        setEstimate(null);
-                      }}
-                      className="p-1 rounded hover:bg-secondary"
-                    >
-                      <X className="w-4 h-4 text-muted-foreground" />
-                    </button>
-                  </div>
                   
+                  )}
+
                   {/* 3D Model Preview */}
                   <div className="mt-4">
                     <ModelViewer 
                       file={file} 
+                      mesh={model?.preview ?? null}
+                      toolpath={gcode?.toolpath ?? null}
+                      parsing={loadingModel}
+                      printer={printer}
+                      scale={modelScale}
+                      orientation={orientation}
+                      thickness={model?.thickness ?? null}
+                      plateLayout={plateLayout}
+                      stability={estimate?.stability ?? null}
                       className="h-64 w-full"
                       onScreenshotReady={(capture) => {
                         captureScreenshotRef.current = capture;
                       }}
                     />
+                    {model?.preview && model.preview.triangles.length / 3 < model.triangleCount && (
+                      <p className="mt-1.5 text-xs text-muted-foreground">
+                        Preview simplified from {model.triangleCount.toLocaleString()} to{" "}
+                        {(model.preview.triangles.length / 3).toLocaleString()} triangles; the quote uses the full model.
+                      </p>
+                    )}
                   </div>
                   
+                  {orientations.length > 1 && !loadingModel && (
+                    // Keep clicks from reaching the upload drop zone around the viewer
+                    <div className="mt-3 flex flex-col gap-1.5" onClick={(e) => e.stopPropagation()}>
+                      <p className="text-xs text-muted-foreground">Print orientation</p>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {orientations.map((candidate, index) => {
+                          const supportCm3 = (candidate.supportVolume * modelScale ** 3) / 1000;
+                          return (
+                            <button
+                              key={index}
+                              type="button"
+                              onClick={() => setOrientation(index)}
+                              className={`text-left rounded-md border px-2.5 py-1.5 text-xs ${
+                                candidate === orientation ? "border-primary bg-primary/10" : "border-border hover:bg-secondary"
+                              }`}
+                            >
+                              <span className="block font-medium">
+                                {candidate.label}{index === 0 && " (recommended)"}
+                              </span>
+                              <span className="block text-muted-foreground">
+                                {Math.round(candidate.dimensions.z * modelScale)} mm tall · {supportCm3 >= 0.05 ? `${supportCm3.toFixed(1)} cm³ supports` : "no supports"}
+                              </span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {unitSuggestions.length > 0 && modelDimensions && (
+                    <Alert className="mt-4 border-amber-500/50 bg-amber-500/5 [&>svg]:text-amber-500">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle className="text-sm">Is this model in {suggestedUnitsLabel}?</AlertTitle>
+                      <AlertDescription className="text-xs text-muted-foreground">
+                        <p>
+                          Read as millimeters it is only {formatDimensions(modelDimensions)}. STL and OBJ files don&apos;t store units;{" "}
+                          {unitSuggestions
+                            .map((suggestion) => `in ${getUnitLabel(suggestion.unit)} it would be ${formatDimensions(suggestion.dimensions)}`)
+                            .join(", ")}.
+                        </p>
+                        <div className="mt-1.5 flex gap-3">
+                          {unitSuggestions.map((suggestion) => (
+                            <button
+                              key={suggestion.unit}
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setModelUnit(suggestion.unit);
+                              }}
+                              className="text-primary hover:underline"
+                            >
+                              Use {getUnitLabel(suggestion.unit)}
+                            </button>
+                          ))}
+                        </div>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {dimensions && buildVolumeFit && !buildVolumeFit.fits && (
+                    <Alert variant="destructive" className="mt-4">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle className="text-sm">Too large for our printers</AlertTitle>
+                      <AlertDescription className="text-xs">
+                        This part is {formatDimensions(dimensions)}, but the build volume here is{" "}
+                        {formatBuildVolume(buildVolume)} ({buildVolumeFit.oversizedAxes.map((axis) => axis.toUpperCase()).join(", ")} too large).
+                        Split the model into smaller parts or scale it down before ordering.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {estimateError && !calculating && (
+                    <Alert variant="destructive" className="mt-4">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle className="text-sm">Could not estimate this file</AlertTitle>
+                      <AlertDescription className="text-xs">
+                        <p>{estimateError}</p>
+                        <p>Try another scale or orientation, or remove the file to quote the rest of the order.</p>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {gcode && !loadingModel && (
+                    <Alert className="mt-4">
+                      <FileCode className="h-4 w-4" />
+                      <AlertTitle className="text-sm">
+                        Sliced G-code{gcode.report.slicer ? ` from ${gcode.report.slicer}` : ""}
+                      </AlertTitle>
+                      <AlertDescription className="text-xs text-muted-foreground">
+                        <p>
+                          {[
+                            gcode.report.printerModel && `For ${gcode.report.printerModel}`,
+                            gcode.report.layerHeight && `${gcode.report.layerHeight} mm layers`,
+                            gcode.report.filamentType,
+                            `${gcode.toolpath.layerZ.length} layers`,
+                          ].filter(Boolean).join(" · ")}
+                        </p>
+                        <p className="mt-1">
+                          {gcode.report.printTime !== null && (gcode.report.filamentGrams !== null || gcode.report.filamentMeters !== null)
+                            ? "Print time and filament are the slicer's own estimates."
+                            : "The slicer didn't report its estimates, so time and filament are measured from the toolpath."}
+                          {" Infill, layer height and scale are fixed by the G-code."}
+                        </p>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {project && projectValues && !loadingModel && (
+                    <Alert className="mt-4">
+                      <SlidersHorizontal className="h-4 w-4" />
+                      <AlertTitle className="text-sm">Settings imported from {project.slicer} project</AlertTitle>
+                      <AlertDescription className="text-xs text-muted-foreground">
+                        <div className="flex gap-3">
+                          {projectThumbnailUrl && (
+                            <img
+                              src={projectThumbnailUrl}
+                              alt="Project thumbnail"
+                              className="w-16 h-16 rounded border border-border object-contain bg-background shrink-0"
+                            />
+                          )}
+                          <div>
+                            <p>
+                              {[
+                                project.layerHeight !== null && `${project.layerHeight} mm layers`,
+                                project.infill !== null && `${project.infill}% infill`,
+                                project.wallCount !== null && `${project.wallCount} walls`,
+                                project.filamentTypes.join(" / "),
+                              ].filter(Boolean).join(" · ")}
+                            </p>
+                            {project.objectColors.length > 0 && (
+                              <ul className="flex flex-wrap gap-x-3 gap-y-1 mt-1.5">
+                                {project.objectColors.map((object, index) => (
+                                  <li key={`${object.name}-${index}`} className="flex items-center gap-1.5">
+                                    <span
+                                      className="inline-block w-2.5 h-2.5 rounded-sm border border-border"
+                                      style={{ backgroundColor: object.color }}
+                                    />
+                                    {object.name}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            <p className="mt-1">
+                              {projectOverridden
+                                ? "You've changed some of these settings below."
+                                : "The print options below are set from the project. Change any of them to override it."}
+                            </p>
+                            {projectOverridden && (
+                              <button
+                                type="button"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (activeItem) applyProjectValues(activeItem.id, projectValues);
+                                }}
+                                className="mt-1.5 text-primary hover:underline"
+                              >
+                                Use project settings
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {model && !loadingModel && (
+                    <MeshHealthPanel
+                      health={model.health}
+                      solid={model.solid}
+                      repairs={model.repairs}
+                      repairedFile={repairedFile && repairedFileUrl ? { url: repairedFileUrl, name: repairedFile.name } : null}
+                      className="mt-4"
+                    />
+                  )}
+
+                  {thinFeatures.length > 0 && !loadingModel && (
+                    <Alert className="mt-4 border-amber-500/50 bg-amber-500/5 [&>svg]:text-amber-500">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle className="text-sm">Some features are too thin to print well</AlertTitle>
+                      <AlertDescription className="text-xs text-muted-foreground">
+                        <ul className="list-disc pl-4 my-1.5 space-y-0.5">
+                          {thinFeatures.map((issue) => (
+                            <li key={issue}>{issue}</li>
+                          ))}
+                        </ul>
+                        <p>
+                          Turn on the wall thickness view above to see where. Thicken these features or scale the part up
+                          before ordering; otherwise we&apos;ll print them as best we can.
+                        </p>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {stabilityIssues.length > 0 && !calculating && (
+                    <Alert className="mt-4 border-amber-500/50 bg-amber-500/5 [&>svg]:text-amber-500">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle className="text-sm">This part may not stay upright</AlertTitle>
+                      <AlertDescription className="text-xs text-muted-foreground">
+                        <ul className="list-disc pl-4 my-1.5 space-y-0.5">
+                          {stabilityIssues.map((issue) => (
+                            <li key={issue}>{issue}</li>
+                          ))}
+                        </ul>
+                        <p>
+                          Turn on the center of mass view above to see where it sits over the base. Another orientation
+                          usually helps; otherwise we&apos;ll add a brim or supports as needed.
+                        </p>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {estimate && !calculating && (
                     <Card className="bg-muted/50 border-border">
                       <CardContent className="pt-4">
@@ -489,6 +1302,7 @@ export function OrderForm({
                             <p className="font-semibold">{estimate.filamentGrams} g</p>
                             <p className="text-xs text-muted-foreground">
                               {estimate.filamentMeters} m
+                              {estimate.supportGrams > 0 && ` · ${estimate.supportGrams} g supports`}
                             </p>
                           </div>
                           <div>
@@ -498,19 +1312,92 @@ export function OrderForm({
                                 ? `${estimate.estimatedTime} min`
                                 : `${Math.floor(estimate.estimatedTime / 60)}h ${estimate.estimatedTime % 60}m`}
                             </p>
+                            {estimate.supportTime > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {estimate.supportTime} min supports
+                              </p>
+                            )}
                           </div>
                           <div>
                             <p className="text-xs text-muted-foreground mb-1">Quantity</p>
                             <p className="font-semibold">{quantity}x</p>
+                            {quantityCount > 1 && (
+                              <p className="text-xs text-muted-foreground">
+                                on {estimate.plates} {estimate.plates === 1 ? "plate" : "plates"}
+                                {plateLayout && estimate.plates > 1 && `, ${plateLayout.perPlate} per plate`}
+                              </p>
+                            )}
                           </div>
+                          {dimensions && (
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">Size (X × Y × Z)</p>
+                              <p className={`font-semibold ${buildVolumeFit?.fits === false ? "text-destructive" : ""}`}>
+                                {formatDimensions(dimensions)}
+                              </p>
+                            </div>
+                          )}
                         </div>
+                        {estimate.parts && (
+                          <div className="mt-4 pt-3 border-t border-border">
+                            <p className="text-xs text-muted-foreground mb-1.5">
+                              {estimate.parts.length} parts on the plate
+                            </p>
+                            <ul className="flex flex-col gap-1 text-xs">
+                              {estimate.parts.map((part, index) => (
+                                <li key={index} className="flex items-center gap-2">
+                                  <span
+                                    className="w-2.5 h-2.5 rounded-full border border-border shrink-0"
+                                    style={{ backgroundColor: PART_COLORS[index % PART_COLORS.length] }}
+                                  />
+                                  <span className="flex-1 truncate">{part.name}</span>
+                                  <span className="text-muted-foreground whitespace-nowrap">
+                                    {part.volume} cm³ · {part.filamentGrams} g · ~{formatPrice(part.manufacturingPrice, estimate.currency, false)}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {estimate.shells && (
+                          <div className="mt-4 pt-3 border-t border-border">
+                            <p className="text-xs text-muted-foreground mb-1.5">
+                              {describeShells(estimate.shells)}
+                            </p>
+                            <ul className="flex flex-col gap-1 text-xs">
+                              {estimate.shells.map((shell, index) => (
+                                <li key={index} className="flex items-center gap-2">
+                                  <span className="flex-1 truncate">
+                                    {shell.kind === "cavity" ? "Internal cavity" : "Body"}
+                                  </span>
+                                  <span className="text-muted-foreground whitespace-nowrap">
+                                    {shell.volume} cm³ · {formatDimensions(shell.dimensions)}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </CardContent>
                     </Card>
                   )}
                   
-                  {calculating && (
-                    <div className="text-xs text-muted-foreground text-center py-2">
-                      Calculating estimates...
+                  {(loadingModel || calculating) && (
+                    <div className="py-2 flex flex-col gap-1.5">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>
+                          {progress
+                            ? progress.stage === "parsing" && progressItem && isGcodeFile(progressItem.file.name)
+                              ? "Reading toolpaths"
+                              : stageLabels[progress.stage]
+                            : "Calculating estimates"}
+                          {multipleFiles && progressItem ? ` (${progressItem.file.name})` : ""}...
+                        </span>
+                        {progress?.value != null && <span>{Math.round(progress.value * 100)}%</span>}
+                      </div>
+                      <Progress
+                        value={progress?.value != null ? progress.value * 100 : 100}
+                        className={`h-1 ${progress?.value == null ? "animate-pulse" : ""}`}
+                      />
                     </div>
                   )}
                 </div>
@@ -520,16 +1407,21 @@ export function OrderForm({
                   <p className="text-sm text-muted-foreground text-center">
                     {"Drop your "}
                     <span className="text-foreground font-medium">
-                      .STL, .OBJ, .3MF
+                      .STL, .OBJ, .3MF, .STEP, .IGES, .PLY, .AMF, .GLB, .GCODE
                     </span>
-                    {" file here or click to browse"}
+                    {" files, or a .ZIP of them, here or click to browse"}
                   </p>
                   <p className="text-xs text-muted-foreground/60">
-                    Max 50 MB
+                    Binary STLs of several hundred MB welcome · up to {MAX_ORDER_FILES} files
                   </p>
                 </>
               )}
             </div>
+            {skippedFiles.length > 0 && (
+              <p className="mt-2 text-xs text-amber-600">
+                Skipped {skippedFiles.length === 1 ? "1 file" : `${skippedFiles.length} files`} we can&apos;t quote or that didn&apos;t fit in the order: {skippedFiles.join(", ")}
+              </p>
+            )}
           </div>
 
           {/* Print Options */}
@@ -537,6 +1429,12 @@ export function OrderForm({
             <span className="font-mono text-[10px] tracking-[0.2em] uppercase text-muted-foreground block mb-4">
               02 — Print Options
             </span>
+            {multipleFiles && file && (
+              <p className="text-xs text-muted-foreground -mt-2 mb-4">
+                Material, color, quantity, units and scale apply to <span className="text-foreground">{file.name}</span>;
+                select another file above to change its options. Infill, layer height, speed and delivery apply to every file.
+              </p>
+            )}
 
             <div className="grid sm:grid-cols-2 gap-5">
               <div className="flex flex-col gap-2">
@@ -548,22 +1446,25 @@ export function OrderForm({
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {materials.map((m) => (
+                    {MATERIALS.map((m) => (
                       <SelectItem key={m.value} value={m.value}>
-                        <span className={m.italic ? "italic" : ""}>
+                        <span className={m.onRequest ? "italic" : ""}>
                           {m.label}
-                          {m.note && <span className="text-muted-foreground ml-1">({m.note})</span>}
+                          {m.onRequest && <span className="text-muted-foreground ml-1">(upon request)</span>}
                         </span>
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {fromProject("material") && (
+                  <p className="text-xs text-muted-foreground">From project</p>
+                )}
               </div>
 
               <div className="flex flex-col gap-2">
                 <Label className="text-sm">Color</Label>
                 <div className="flex flex-wrap gap-2 pt-1">
-                  {colors.map((c) => (
+                  {getMaterial(material).colors.map((c) => (
                     <button
                       key={c.value}
                       type="button"
@@ -581,13 +1482,16 @@ export function OrderForm({
                     />
                   ))}
                 </div>
+                {fromProject("color") && (
+                  <p className="text-xs text-muted-foreground">From project</p>
+                )}
               </div>
 
               <div className="flex flex-col gap-2">
                 <Label htmlFor="infill" className="text-sm">
                   Infill
                 </Label>
-                <Select value={infill} onValueChange={setInfill}>
+                <Select value={infill} onValueChange={setInfill} disabled={gcodeUpload}>
                   <SelectTrigger id="infill" className="bg-card border-border">
                     <SelectValue />
                   </SelectTrigger>
@@ -599,24 +1503,59 @@ export function OrderForm({
                     ))}
                   </SelectContent>
                 </Select>
+                {gcodeUpload && (
+                  <p className="text-xs text-muted-foreground">Set in your slicer</p>
+                )}
+                {fromProject("infill") && project?.infill !== null && (
+                  <p className="text-xs text-muted-foreground">From project ({project?.infill}%)</p>
+                )}
               </div>
 
               <div className="flex flex-col gap-2">
                 <Label htmlFor="layer" className="text-sm">
                   Layer Height
                 </Label>
-                <Select value={layerHeight} onValueChange={setLayerHeight}>
+                <Select value={layerHeight} onValueChange={setLayerHeight} disabled={gcodeUpload}>
                   <SelectTrigger id="layer" className="bg-card border-border">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     {layerOptions.map((o) => (
+                      <SelectItem key={o.value} value={o.value} disabled={parseFloat(o.value) < materialLimits.minLayerHeight}>
+                        {o.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {gcodeUpload && (
+                  <p className="text-xs text-muted-foreground">
+                    {gcode?.report.layerHeight ? `Sliced at ${gcode.report.layerHeight} mm` : "Set in your slicer"}
+                  </p>
+                )}
+                {fromProject("layerHeight") && project?.layerHeight !== null && (
+                  <p className="text-xs text-muted-foreground">From project ({project?.layerHeight} mm)</p>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="supports" className="text-sm">
+                  Supports
+                </Label>
+                <Select value={supports} onValueChange={(value) => setSupports(value as SupportMode)} disabled={gcodeUpload}>
+                  <SelectTrigger id="supports" className="bg-card border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {supportOptions.map((o) => (
                       <SelectItem key={o.value} value={o.value}>
                         {o.label}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-muted-foreground">
+                  {gcodeUpload ? "Set in your slicer" : `Under overhangs steeper than ${overhangAngle}°`}
+                </p>
               </div>
 
               <div className="flex flex-col gap-2">
@@ -634,6 +1573,47 @@ export function OrderForm({
                 />
               </div>
 
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="units" className="text-sm">
+                  Model Units
+                </Label>
+                <Select
+                  value={declaredUnit === "unknown" ? modelUnit : "millimeter"}
+                  onValueChange={(value) => setModelUnit(value as ModelUnit)}
+                  disabled={declaredUnit !== "unknown"}
+                >
+                  <SelectTrigger id="units" className="bg-card border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MODEL_UNITS.map((u) => (
+                      <SelectItem key={u.value} value={u.value}>
+                        {u.label} ({u.symbol})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {declaredUnit !== "unknown" && (
+                  <p className="text-xs text-muted-foreground">Units are read from the file</p>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="scale" className="text-sm">
+                  Scale (%)
+                </Label>
+                <Input
+                  id="scale"
+                  type="number"
+                  min={1}
+                  max={10000}
+                  value={scalePercent}
+                  onChange={(e) => setScalePercent(e.target.value)}
+                  disabled={gcodeUpload}
+                  className="bg-card border-border"
+                />
+              </div>
+
               <div className="flex flex-col gap-2">
                 <Label htmlFor="speed" className="text-sm">
                   Speed
@@ -644,7 +1624,7 @@ export function OrderForm({
                   </SelectTrigger>
                   <SelectContent>
                     {speedOptions.map((s) => (
-                      <SelectItem key={s.value} value={s.value}>
+                      <SelectItem key={s.value} value={s.value} disabled={!materialLimits.speeds.includes(s.value)}>
                         <div className="flex flex-col">
                           <span>{s.label}</span>
                           <span className="text-xs text-muted-foreground">{s.description}</span>
@@ -796,6 +1776,28 @@ export function OrderForm({
                   className="bg-card border-border"
                 />
               </div>
+              <div className="sm:col-span-2 flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="taxExempt"
+                    checked={taxExempt}
+                    onCheckedChange={(checked) => setTaxExempt(checked === true)}
+                  />
+                  <Label htmlFor="taxExempt" className="text-sm font-normal">
+                    Tax-exempt business
+                  </Label>
+                </div>
+                {taxExempt && (
+                  <Input
+                    id="taxId"
+                    aria-label="Tax ID"
+                    placeholder="Tax ID (e.g. HST number or resale certificate)"
+                    value={taxId}
+                    onChange={(e) => setTaxId(e.target.value)}
+                    className="bg-card border-border"
+                  />
+                )}
+              </div>
               <div className="sm:col-span-2 flex flex-col gap-2">
                 <Label htmlFor="notes" className="text-sm">
                   {"Notes "}
@@ -815,22 +1817,48 @@ export function OrderForm({
           </div>
 
           {/* Price Breakdown */}
-          {estimate && !calculating && (
+          {orderEstimate && !calculating && (
             <div className="border-t border-border pt-6">
               <div className="flex flex-col gap-3">
+                {multipleFiles && items.map((item) => (
+                  <div key={item.id} className="flex justify-between items-center gap-4">
+                    <span className="text-sm text-muted-foreground truncate">
+                      {item.file.name} × {parseInt(item.quantity) || 1}
+                    </span>
+                    <span className="text-sm whitespace-nowrap">~{formatPrice(estimates[item.id]?.manufacturingPrice ?? 0, orderEstimate.currency)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Manufacturing Price</span>
-                  <span className="text-sm font-semibold">~${estimate.manufacturingPrice.toFixed(2)} CAD</span>
+                  <span className="text-sm font-semibold">~{formatPrice(orderEstimate.manufacturingPrice, orderEstimate.currency)}</span>
                 </div>
-                {estimate.deliveryPrice > 0 && (
+                {orderEstimate.materialPrice > 0 && (
+                  <div className="flex justify-between items-center pl-3">
+                    <span className="text-xs text-muted-foreground">Includes material, {orderEstimate.filamentGrams} g of filament</span>
+                    <span className="text-xs text-muted-foreground">~{formatPrice(orderEstimate.materialPrice, orderEstimate.currency)}</span>
+                  </div>
+                )}
+                {orderEstimate.deliveryPrice > 0 && (
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Delivery Price</span>
-                    <span className="text-sm font-semibold">~${estimate.deliveryPrice.toFixed(2)} CAD</span>
+                    <span className="text-sm font-semibold">~{formatPrice(orderEstimate.deliveryPrice, orderEstimate.currency)}</span>
+                  </div>
+                )}
+                {orderEstimate.taxes.map((tax) => (
+                  <div key={tax.name} className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">{tax.name} {formatTaxRate(tax.rate)}</span>
+                    <span className="text-sm font-semibold">~{formatPrice(tax.amount, orderEstimate.currency)}</span>
+                  </div>
+                ))}
+                {exemptFromTax && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Sales tax</span>
+                    <span className="text-sm">Exempt (tax ID {taxId.trim()})</span>
                   </div>
                 )}
                 <div className="flex justify-between items-center pt-3 border-t border-border">
                   <span className="text-base font-semibold">Total Price</span>
-                  <span className="text-lg font-bold">~${estimate.price.toFixed(2)} CAD</span>
+                  <span className="text-lg font-bold">~{formatPrice(orderEstimate.price, orderEstimate.currency)}</span>
                 </div>
               </div>
             </div>
@@ -839,7 +1867,7 @@ export function OrderForm({
           <Button
             type="submit"
             size="lg"
-            disabled={submitting || !file || !estimate || !name || !email}
+            disabled={submitting || !file || !orderEstimate || !name || !email || oversizedItems.length > 0}
             className="w-full bg-primary text-primary-foreground hover:bg-primary/90 font-semibold tracking-wide disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {submitting ? 'Submitting...' : 'Submit Print Order'}
@@ -2,723 +2,327 @@
  * Utility functions for 3D file processing and print estimation
  */
 
-interface PrintSettings {
+import type { ModelDimensions } from '@/lib/build-volume';
+import { computeMeshBounds, computeMeshVolume, scaleMesh, type IndexedMesh } from '@/lib/mesh';
+import { getFileExtension, isGcodeFile, parseMeshFile } from '@/lib/mesh-parser';
+import { MAX_TRIANGLES_FOR_REPAIR, countRepairs, repairMesh, type MeshRepairSummary } from '@/lib/mesh-repair';
+import { getMaterial } from '@/lib/materials';
+import type { MeshShell } from '@/lib/mesh-shells';
+import { nestParts, type PlateLayout } from '@/lib/nesting';
+import { rotateMesh, type Rotation } from '@/lib/orientation';
+import { convertCurrency, type CurrencyCode } from '@/lib/currency';
+import { LOCATION_CURRENCIES, getActiveRateCard, getQuantityDiscount, type RateCard } from '@/lib/pricing';
+import { DEFAULT_PRINTER, type PrinterProfile } from '@/lib/printers';
+import { parseGcode, type ParsedGcode } from '@/lib/parsers/gcode';
+import { isStreamableSTL, parseSTLStream } from '@/lib/parsers/stl';
+import { approximateSlices, sliceMesh, type SliceResult } from '@/lib/slicer';
+import type { StabilityReport } from '@/lib/stability';
+import type { ThicknessFindings } from '@/lib/thickness';
+import { getSupportRegion, type SupportAnalysis, type SupportMode } from '@/lib/supports';
+import { LOCATION_TAX_RULES, calculateTaxes, sumTaxes, type TaxLine, type TaxRule } from '@/lib/tax';
+
+export interface PrintSettings {
   material: string;
   infill: number; // percentage (0-100)
   layerHeight: number; // mm
   quantity: number;
+  scale?: number; // uniform scale factor for the model, including unit conversion (default 1)
+  rotation?: Rotation | null; // print orientation of the model (default as uploaded)
   speed?: string; // 'instant', 'fast', 'regular'
   delivery?: string; // 'pickup', 'delivery'
   deliveryDistance?: number | null; // distance in km
+  supports?: SupportMode; // default 'auto'
+  overhangAngle?: number; // degrees from vertical beyond which faces need support (default 45)
+  printer?: PrinterProfile; // machine the part is sliced, timed and nested for (default DEFAULT_PRINTER)
+  rateCard?: RateCard; // prices of the ordering location (default Toronto's active card)
+  taxExempt?: boolean; // business customer with a tax ID; no sales tax is added
 }
 
 export interface PrintEstimate {
   volume: number; // cm³
-  filamentGrams: number; // grams
+  filamentGrams: number; // grams, including supports
   filamentMeters: number; // meters
-  estimatedTime: number; // minutes
-  price: number; // CAD (total)
-  manufacturingPrice: number; // CAD
-  deliveryPrice: number; // CAD
+  estimatedTime: number; // minutes, including supports
+  supportGrams: number; // grams of support material
+  supportTime: number; // minutes spent printing supports
+  layerCount: number; // sliced layers at the chosen layer height
+  plates: number; // build plates printed for the whole quantity
+  price: number; // total including taxes, in `currency`
+  manufacturingPrice: number; // machine time and material, in `currency`
+  materialPrice: number; // filament share of `manufacturingPrice`
+  deliveryPrice: number; // in `currency`
+  taxes: TaxLine[]; // sales taxes of the location, empty when tax-exempt
+  currency: CurrencyCode; // the ordering location's currency
+  rateCard: string; // id of the rate card that priced the estimate, e.g. "toronto-v1"
+  printer: string; // id of the printer profile the estimate was timed on, e.g. "corexy-400"
+  parts?: PartEstimate[]; // split per part for models with several parts
+  shells?: MeshShell[]; // bodies and internal cavities at print scale, for meshes with more than one shell
+  stability?: StabilityReport; // center of mass and tip-over check in the print orientation, for measured meshes
+  thickness?: ThicknessFindings; // thin walls and features at print scale, for meshes small enough to check
 }
 
-// Material densities in g/cm³
-const MATERIAL_DENSITIES: Record<string, number> = {
-  pla: 1.24,
-  petg: 1.27,
-  abs: 1.04,
-  tpu: 1.20,
-};
-
-// Filament diameter (standard 1.75mm)
-const FILAMENT_DIAMETER = 1.75; // mm
-const FILAMENT_RADIUS = FILAMENT_DIAMETER / 2; // mm
-
-// Standard print settings (typical FDM printer defaults)
-const STANDARD_LINE_WIDTH = 0.4; // mm (standard nozzle size)
-const STANDARD_PERIMETERS = 2; // number of wall perimeters
-const STANDARD_TOP_BOTTOM_LAYERS = 3; // top and bottom solid layers
-
-// Average print speeds (mm/s) - conservative estimates
-const PRINT_SPEEDS = {
-  perimeters: 50, // mm/s
-  infill: 60, // mm/s
-  firstLayer: 20, // mm/s
-};
+/**
+ * One part's share of a multi-part estimate
+ */
+export interface PartEstimate {
+  name: string;
+  volume: number; // cm³
+  filamentGrams: number; // grams, for the whole quantity
+  manufacturingPrice: number; // in the estimate's currency, for the whole quantity
+}
 
 /**
- * Parse STL file and calculate volume
- * STL format: Binary or ASCII
+ * Name and volume of one part of a model
  */
-export async function calculateSTLVolume(file: File): Promise<number> {
-  const arrayBuffer = await file.arrayBuffer();
-  const uint8Array = new Uint8Array(arrayBuffer);
-  
-  // Check if binary STL (starts with non-printable characters after header)
-  const isBinary = uint8Array[80] !== undefined && 
-                   (uint8Array[80] < 32 || uint8Array[80] > 126);
-  
-  if (isBinary) {
-    return parseBinarySTL(uint8Array);
-  } else {
-    return parseASCIISTL(uint8Array);
-  }
+export interface ModelPart {
+  name: string;
+  volume: number; // cm³
 }
 
+// Each plate heats up, homes and levels the bed before printing
+const PLATE_SETUP_MINUTES = 5;
+
+// Per layer: one layer change for the plate, plus a travel move to each further part on it
+const LAYER_CHANGE_SECONDS = 5;
+const PART_TRAVEL_SECONDS = 1;
+
+// Support structures: sparse columns under a dense interface the overhang is printed on
+const SUPPORT_DENSITY = 0.15; // fraction of the support volume that is extruded
+const SUPPORT_INTERFACE_LAYERS = 2; // solid layers directly under the overhang
+
+// Share of the part's filament assumed for supports when there is no mesh to analyze
+const FALLBACK_SUPPORT_SHARE = 0.05;
+
 /**
- * Parse binary STL file
+ * Calculate volume of a parsed mesh in cm³
+ * Meshes without faces (point clouds) fall back to a bounding box estimate
  */
-function parseBinarySTL(data: Uint8Array): number {
-  // Binary STL format:
-  // 80 bytes header
-  // 4 bytes: number of triangles (uint32)
-  // For each triangle: 12 floats (normal x,y,z) + 9 floats (vertices) + 2 bytes attribute
-  
-  if (data.length < 84) {
-    throw new Error("Invalid STL file: too short");
-  }
-  
-  const view = new DataView(data.buffer);
-  const numTriangles = view.getUint32(80, true); // little-endian
-  
-  console.log(`Binary STL: ${numTriangles} triangles`);
-  
-  // First pass: calculate centroid to use as reference point
-  let sumX = 0, sumY = 0, sumZ = 0;
-  let vertexCount = 0;
-  let offset = 84;
-  
-  for (let i = 0; i < numTriangles && offset + 50 <= data.length; i++) {
-    offset += 12; // Skip normal
-    
-    sumX += view.getFloat32(offset, true);
-    sumY += view.getFloat32(offset + 4, true);
-    sumZ += view.getFloat32(offset + 8, true);
-    vertexCount++;
-    offset += 12;
-    
-    sumX += view.getFloat32(offset, true);
-    sumY += view.getFloat32(offset + 4, true);
-    sumZ += view.getFloat32(offset + 8, true);
-    vertexCount++;
-    offset += 12;
-    
-    sumX += view.getFloat32(offset, true);
-    sumY += view.getFloat32(offset + 4, true);
-    sumZ += view.getFloat32(offset + 8, true);
-    vertexCount++;
-    offset += 12;
-    
-    offset += 2; // Skip attribute
-  }
-  
-  const referencePoint = vertexCount > 0 
-    ? { x: sumX / vertexCount, y: sumY / vertexCount, z: sumZ / vertexCount }
-    : { x: 0, y: 0, z: 0 };
-  
-  // Second pass: calculate volume using reference point
-  let totalVolume = 0;
-  offset = 84;
-  let validTriangles = 0;
-  
-  for (let i = 0; i < numTriangles; i++) {
-    if (offset + 50 > data.length) {
-      console.warn(`STL parsing stopped early: offset ${offset} + 50 > ${data.length}`);
-      break;
-    }
-    
-    // Skip normal (12 bytes)
-    offset += 12;
-    
-    // Read three vertices (9 floats = 36 bytes)
-    const v1 = {
-      x: view.getFloat32(offset, true),
-      y: view.getFloat32(offset + 4, true),
-      z: view.getFloat32(offset + 8, true),
-    };
-    offset += 12;
-    
-    const v2 = {
-      x: view.getFloat32(offset, true),
-      y: view.getFloat32(offset + 4, true),
-      z: view.getFloat32(offset + 8, true),
-    };
-    offset += 12;
-    
-    const v3 = {
-      x: view.getFloat32(offset, true),
-      y: view.getFloat32(offset + 4, true),
-      z: view.getFloat32(offset + 8, true),
-    };
-    offset += 12;
-    
-    // Skip attribute (2 bytes)
-    offset += 2;
-    
-    // Calculate signed volume of tetrahedron using reference point
-    const volume = calculateTetrahedronVolume(v1, v2, v3, referencePoint);
-    if (isFinite(volume)) {
-      totalVolume += volume;
-      validTriangles++;
-    }
-  }
-  
-  console.log(`STL volume calculation: ${validTriangles}/${numTriangles} valid triangles, raw volume: ${totalVolume} mm³`);
-  
-  // Convert from mm³ to cm³ and take absolute value
-  const finalVolume = Math.abs(totalVolume) / 1000;
-  console.log(`STL final volume: ${finalVolume} cm³`);
-  
-  if (finalVolume === 0 && validTriangles > 0) {
-    console.warn("Volume is 0 despite valid triangles - this should not happen with reference point method");
+export function calculateMeshVolume(mesh: IndexedMesh): number {
+  if (mesh.triangles.length === 0) {
+    console.warn("No faces found in mesh, using bounding box estimation");
+    const { min, max } = computeMeshBounds(mesh);
+    const boundingVolume = (max.x - min.x) * (max.y - min.y) * (max.z - min.z);
+    const estimatedVolume = (boundingVolume * 0.6) / 1000; // Rough estimate
+    console.log(`Bounding box volume estimate: ${estimatedVolume} cm³`);
+    return estimatedVolume;
   }
-  
-  return finalVolume;
+
+  return computeMeshVolume(mesh);
 }
 
 /**
- * Parse ASCII STL file
+ * A parsed model ready for slicing
  */
-function parseASCIISTL(data: Uint8Array): number {
-  const text = new TextDecoder().decode(data);
-  const lines = text.split('\n');
-  
-  // First pass: collect all vertices to calculate centroid
-  const allVertices: Array<{ x: number; y: number; z: number }> = [];
-  let currentVertices: Array<{ x: number; y: number; z: number }> = [];
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    if (trimmed.startsWith('vertex')) {
-      const parts = trimmed.split(/\s+/);
-      if (parts.length >= 4) {
-        const x = parseFloat(parts[1]);
-        const y = parseFloat(parts[2]);
-        const z = parseFloat(parts[3]);
-        
-        if (!isNaN(x) && !isNaN(y) && !isNaN(z)) {
-          const vertex = { x, y, z };
-          currentVertices.push(vertex);
-          allVertices.push(vertex);
-          
-          // When we have 3 vertices, reset for next triangle
-          if (currentVertices.length === 3) {
-            currentVertices = [];
-          }
-        }
-      }
-    } else if (trimmed.startsWith('endfacet') || trimmed.startsWith('endsolid')) {
-      currentVertices = [];
-    }
-  }
-  
-  // Calculate centroid as reference point
-  let sumX = 0, sumY = 0, sumZ = 0;
-  for (const v of allVertices) {
-    sumX += v.x;
-    sumY += v.y;
-    sumZ += v.z;
-  }
-  const referencePoint = allVertices.length > 0
-    ? { x: sumX / allVertices.length, y: sumY / allVertices.length, z: sumZ / allVertices.length }
-    : { x: 0, y: 0, z: 0 };
-  
-  // Second pass: calculate volume using reference point
-  let totalVolume = 0;
-  currentVertices = [];
+export interface PreparedModel {
+  mesh: IndexedMesh | null; // null when the file could not be parsed
+  volume: number; // cm³
+  solid: boolean; // false when `volume` is a file-size fallback rather than measured
+  repairs: MeshRepairSummary | null; // fixes applied to `mesh`, null when nothing was parsed or it was too large to repair
+  gcode: ParsedGcode | null; // slicer output for G-code uploads, which have no mesh
+}
+
+/**
+ * Rough volume for files that cannot be measured, based on file size
+ */
+function estimateVolumeFromFileSize(fileSize: number): number {
+  const fileSizeMB = fileSize / (1024 * 1024);
+  return Math.max(0.1, fileSizeMB * 15); // Rough estimate, ensure minimum
+}
+
+/**
+ * Measure a parsed mesh, falling back to a file-size estimate when it has no usable volume
+ * `measuredVolume` skips measuring again when the parser already did.
+ */
+export function prepareMesh(
+  mesh: IndexedMesh | null,
+  fileSize: number,
+  repairs: MeshRepairSummary | null = null,
+  measuredVolume?: number
+): PreparedModel {
+  const volume = measuredVolume ?? (mesh ? calculateMeshVolume(mesh) : 0);
   
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    if (trimmed.startsWith('vertex')) {
-      const parts = trimmed.split(/\s+/);
-      if (parts.length >= 4) {
-        const x = parseFloat(parts[1]);
-        const y = parseFloat(parts[2]);
-        const z = parseFloat(parts[3]);
-        
-        if (!isNaN(x) && !isNaN(y) && !isNaN(z)) {
-          currentVertices.push({ x, y, z });
-          
-          // When we have 3 vertices, calculate volume
-          if (currentVertices.length === 3) {
-            const volume = calculateTetrahedronVolume(
-              currentVertices[0],
-              currentVertices[1],
-              currentVertices[2],
-              referencePoint
-            );
-            if (isFinite(volume)) {
-              totalVolume += volume;
-            }
-            currentVertices = [];
-          }
-        }
-      }
-    } else if (trimmed.startsWith('endfacet') || trimmed.startsWith('endsolid')) {
-      currentVertices = [];
-    }
+  // Validate volume
+  if (mesh && volume > 0 && isFinite(volume)) {
+    return { mesh, volume, solid: true, repairs, gcode: null };
   }
   
-  console.log(`ASCII STL: ${allVertices.length / 3} triangles, volume: ${Math.abs(totalVolume) / 1000} cm³`);
-  
-  // Convert from mm³ to cm³ and take absolute value
-  return Math.abs(totalVolume) / 1000;
+  const fallbackVolume = estimateVolumeFromFileSize(fileSize);
+  console.warn(`Invalid volume ${volume} calculated, using fallback estimate: ${fallbackVolume} cm³`);
+  return { mesh, volume: fallbackVolume, solid: false, repairs, gcode: null };
 }
 
 /**
- * Calculate volume of tetrahedron formed by triangle and origin
- * Uses the signed volume method
- * Note: If model is centered at origin, use a reference point offset
+ * Filament volume in cm³ used by sliced G-code
  */
-function calculateTetrahedronVolume(
-  v1: { x: number; y: number; z: number },
-  v2: { x: number; y: number; z: number },
-  v3: { x: number; y: number; z: number },
-  referencePoint?: { x: number; y: number; z: number }
-): number {
-  // Use reference point if provided (to avoid cancellation when model is centered at origin)
-  const ref = referencePoint || { x: 0, y: 0, z: 0 };
-  
-  // Translate vertices relative to reference point
-  const p1 = { x: v1.x - ref.x, y: v1.y - ref.y, z: v1.z - ref.z };
-  const p2 = { x: v2.x - ref.x, y: v2.y - ref.y, z: v2.z - ref.z };
-  const p3 = { x: v3.x - ref.x, y: v3.y - ref.y, z: v3.z - ref.z };
-  
-  // Signed volume = (1/6) * dot(p1, cross(p2, p3))
-  const crossX = p2.y * p3.z - p2.z * p3.y;
-  const crossY = p2.z * p3.x - p2.x * p3.z;
-  const crossZ = p2.x * p3.y - p2.y * p3.x;
-  
-  const dot = p1.x * crossX + p1.y * crossY + p1.z * crossZ;
-  return dot / 6.0;
+function getGcodeFilamentVolume(gcode: ParsedGcode, material: string, filamentDiameter: number): number {
+  const { report, toolpath } = gcode;
+  const meters = report.filamentMeters
+    ?? (report.filamentGrams !== null ? estimateFilamentMeters(report.filamentGrams, material, filamentDiameter) : toolpath.filamentLength / 1000);
+  const crossSectionArea = Math.PI * Math.pow(filamentDiameter / 2, 2); // mm²
+  return (meters * 1000 * crossSectionArea) / 1000;
 }
 
 /**
- * Calculate volume for OBJ files using accurate signed volume method
- * Parses faces and calculates volume from triangles
+ * Repair a parsed mesh, unless it is beyond MAX_TRIANGLES_FOR_REPAIR
  */
-export async function calculateOBJVolume(file: File): Promise<number> {
-  const text = await file.text();
-  const lines = text.split('\n');
-  
-  const vertices: Array<{ x: number; y: number; z: number }> = [];
-  const faces: Array<number[]> = [];
-  
-  // Parse vertices
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed.startsWith('v ') && !trimmed.startsWith('vt ') && !trimmed.startsWith('vn ')) {
-      const parts = trimmed.split(/\s+/);
-      if (parts.length >= 4) {
-        const x = parseFloat(parts[1]);
-        const y = parseFloat(parts[2]);
-        const z = parseFloat(parts[3]);
-        
-        if (!isNaN(x) && !isNaN(y) && !isNaN(z)) {
-          vertices.push({ x, y, z });
-        }
-      }
-    } else if (trimmed.startsWith('f ')) {
-      // Parse face indices (OBJ is 1-indexed)
-      const parts = trimmed.split(/\s+/);
-      const faceIndices: number[] = [];
-      for (let i = 1; i < parts.length; i++) {
-        const vertexIndex = parseInt(parts[i].split('/')[0]);
-        if (!isNaN(vertexIndex) && vertexIndex > 0) {
-          faceIndices.push(vertexIndex - 1); // Convert to 0-indexed
-        }
-      }
-      if (faceIndices.length >= 3) {
-        faces.push(faceIndices);
-      }
-    }
+function repairWithinBudget(mesh: IndexedMesh): { mesh: IndexedMesh; summary: MeshRepairSummary | null } {
+  if (mesh.triangles.length / 3 > MAX_TRIANGLES_FOR_REPAIR) {
+    return { mesh, summary: null };
   }
-  
-  if (vertices.length === 0) {
-    throw new Error("No vertices found in OBJ file");
-  }
-  
-  console.log(`OBJ file: Found ${vertices.length} vertices, ${faces.length} faces`);
-  
-  if (faces.length === 0) {
-    console.warn("No faces found in OBJ file, using bounding box estimation");
-    // Fallback: if no faces, estimate from bounding box
-    let minX = Infinity, maxX = -Infinity;
-    let minY = Infinity, maxY = -Infinity;
-    let minZ = Infinity, maxZ = -Infinity;
-    
-    for (const v of vertices) {
-      minX = Math.min(minX, v.x);
-      maxX = Math.max(maxX, v.x);
-      minY = Math.min(minY, v.y);
-      maxY = Math.max(maxY, v.y);
-      minZ = Math.min(minZ, v.z);
-      maxZ = Math.max(maxZ, v.z);
-    }
-    
-    const width = maxX - minX;
-    const height = maxY - minY;
-    const depth = maxZ - minZ;
-    const boundingVolume = width * height * depth;
-    const estimatedVolume = (boundingVolume * 0.6) / 1000; // Rough estimate
-    console.log(`Bounding box volume estimate: ${estimatedVolume} cm³`);
-    return estimatedVolume;
+  return repairMesh(mesh);
+}
+
+/**
+ * Parse, repair and measure a 3D file
+ * G-code is parsed as is; its volume is the filament the slicer plans to use.
+ * Large binary STLs are streamed, reporting progress through `onProgress`;
+ * other files are read whole, or taken from `data` when the caller already has.
+ */
+export async function prepareModel(
+  file: File,
+  onProgress?: (progress: number) => void,
+  data?: ArrayBuffer
+): Promise<PreparedModel> {
+  if (!data && getFileExtension(file.name) === 'stl' && await isStreamableSTL(file)) {
+    const { mesh, volume } = await parseSTLStream(file, onProgress);
+    const { mesh: repaired, summary } = repairWithinBudget(mesh);
+    // The streamed volume still holds when repair left the faces as they were
+    return prepareMesh(repaired, file.size, summary, summary === null || countRepairs(summary) === 0 ? volume : undefined);
   }
-  
-  // Calculate centroid as reference point
-  let sumX = 0, sumY = 0, sumZ = 0;
-  for (const v of vertices) {
-    sumX += v.x;
-    sumY += v.y;
-    sumZ += v.z;
+
+  if (isGcodeFile(file.name)) {
+    const gcode = await parseGcode(data ?? await file.arrayBuffer());
+    const volume = getGcodeFilamentVolume(gcode, gcode.report.filamentType?.toLowerCase() ?? 'pla', DEFAULT_PRINTER.filamentDiameter);
+    return { mesh: null, volume, solid: true, repairs: null, gcode };
   }
-  const referencePoint = vertices.length > 0
-    ? { x: sumX / vertices.length, y: sumY / vertices.length, z: sumZ / vertices.length }
-    : { x: 0, y: 0, z: 0 };
-  
-  // Calculate volume using signed volume method (same as STL)
-  let totalVolume = 0;
-  let triangleCount = 0;
-  
-  for (const face of faces) {
-    // Triangulate polygon faces (fan triangulation)
-    if (face.length >= 3) {
-      const v0 = vertices[face[0]];
-      if (!v0) continue; // Skip invalid vertex indices
-      
-      for (let i = 1; i < face.length - 1; i++) {
-        const v1 = vertices[face[i]];
-        const v2 = vertices[face[i + 1]];
-        
-        if (!v1 || !v2) continue; // Skip invalid vertex indices
-        
-        // Calculate signed volume of tetrahedron using reference point
-        const volume = calculateTetrahedronVolume(v0, v1, v2, referencePoint);
-        if (isFinite(volume)) {
-          totalVolume += volume;
-          triangleCount++;
-        }
-      }
-    }
+
+  let mesh: IndexedMesh | null = null;
+  try {
+    mesh = await parseMeshFile(file, data);
+  } catch (error) {
+    console.error('Error parsing model:', error);
   }
-  
-  console.log(`OBJ volume calculation: ${triangleCount} triangles, raw volume: ${totalVolume} mm³`);
-  
-  // Convert from mm³ to cm³ and take absolute value
-  const finalVolume = Math.abs(totalVolume) / 1000;
-  console.log(`OBJ final volume: ${finalVolume} cm³`);
-  
-  if (finalVolume === 0 && triangleCount > 0) {
-    console.warn("Volume is 0 despite valid triangles - this should not happen with reference point method");
+  if (!mesh) {
+    return prepareMesh(null, file.size);
   }
-  
-  return finalVolume;
+
+  const { mesh: repaired, summary } = repairWithinBudget(mesh);
+  return prepareMesh(repaired, file.size, summary);
 }
 
 /**
- * Calculate volume for 3MF files by parsing mesh data from XML
- * Uses the same accurate signed volume method as STL/OBJ
+ * Parts of a measured model, one per mesh object (e.g. 3MF build item)
  */
-export async function calculate3MFVolume(file: File): Promise<number> {
-  const JSZip = (await import('jszip')).default;
-  const arrayBuffer = await file.arrayBuffer();
-  const zip = await JSZip.loadAsync(arrayBuffer);
-  
-  // Find model file in 3MF archive
-  let modelFile: { async: (format: string) => Promise<string | ArrayBuffer | Blob> } | null = null;
-  let modelPath = '';
-  
-  // Look for .model files (XML format)
-  for (const [path, entry] of Object.entries(zip.files)) {
-    const entryAny = entry as any;
-    if (entryAny.dir) continue;
-    const lowerPath = path.toLowerCase();
-    if (lowerPath.endsWith('.model')) {
-      modelFile = entryAny;
-      modelPath = path;
-      break;
-    }
-  }
-  
-  // If no .model file, look for STL/OBJ files in the archive
-  if (!modelFile) {
-    for (const [path, entry] of Object.entries(zip.files)) {
-      const entryAny = entry as any;
-      if (entryAny.dir) continue;
-      const lowerPath = path.toLowerCase();
-      if (lowerPath.endsWith('.stl')) {
-        const stlData = await entryAny.async('arraybuffer');
-        const stlFile = new File([stlData], path, { type: 'application/octet-stream' });
-        return await calculateSTLVolume(stlFile);
-      } else if (lowerPath.endsWith('.obj')) {
-        const objData = await entryAny.async('blob');
-        const objFile = new File([objData], path, { type: 'text/plain' });
-        return await calculateOBJVolume(objFile);
-      }
-    }
-  }
-  
-  if (!modelFile) {
-    throw new Error('No model file found in 3MF archive');
-  }
-  
-  // Parse XML model file
-  const modelText = (await (modelFile as any).async('string')) as string;
-  const parser = new DOMParser();
-  const xmlDoc = parser.parseFromString(modelText, 'text/xml');
-  
-  // Get unit from model element (default is millimeter per 3MF spec)
-  const root = xmlDoc.documentElement;
-  const unit = root.getAttribute('unit') || 'millimeter';
-  console.log(`3MF model unit: ${unit}`);
-  
-  // Find mesh elements
-  const meshes = xmlDoc.getElementsByTagName('mesh');
-  if (meshes.length === 0) {
-    // Try with namespace
-    const namespace = root.namespaceURI || 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
-    const nsMeshes = xmlDoc.getElementsByTagNameNS(namespace, 'mesh');
-    if (nsMeshes.length === 0) {
-      throw new Error('No mesh elements found in 3MF model file');
-    }
-    return calculateVolumeFromMeshes(nsMeshes, unit);
+export function getModelParts(model: PreparedModel): ModelPart[] {
+  if (!model.mesh || !model.solid) {
+    return [];
   }
-  
-  return calculateVolumeFromMeshes(meshes, unit);
+  const mesh = model.mesh;
+  return mesh.objects.map((object) => ({ name: object.name, volume: computeMeshVolume(mesh, object) }));
 }
 
 /**
- * Calculate volume from 3MF mesh elements
- * @param meshes - Mesh elements from 3MF XML
- * @param unit - Unit attribute from model element ('meter', 'millimeter', 'inch', etc.)
+ * Apply a uniform scale (unit conversion and/or scale percentage) to a prepared model
  */
-function calculateVolumeFromMeshes(meshes: HTMLCollectionOf<Element> | Element[], unit: string = 'millimeter'): number {
-  let totalVolume = 0;
-  
-  // Unit conversion factors to millimeters
-  const unitToMm: Record<string, number> = {
-    'meter': 1000,
-    'millimeter': 1,
-    'inch': 25.4,
-    'foot': 304.8,
-    'micron': 0.001,
-  };
-  
-  const unitFactor = unitToMm[unit.toLowerCase()] || 1;
-  console.log(`3MF unit conversion factor: ${unitFactor} (unit: ${unit})`);
-  
-  // Calculate centroid as reference point
-  const allVertices: Array<{ x: number; y: number; z: number }> = [];
-  
-  for (let i = 0; i < meshes.length; i++) {
-    const mesh = meshes[i];
-    
-    // Get vertices
-    let verticesElement = mesh.getElementsByTagName('vertices')[0];
-    if (!verticesElement) {
-      const namespace = mesh.namespaceURI;
-      if (namespace) {
-        verticesElement = mesh.getElementsByTagNameNS(namespace, 'vertices')[0];
-      }
-    }
-    
-    if (!verticesElement) continue;
-    
-    const vertexElements = verticesElement.getElementsByTagName('vertex');
-    
-    for (let j = 0; j < vertexElements.length; j++) {
-      const vertex = vertexElements[j];
-      const x = parseFloat(vertex.getAttribute('x') || '0');
-      const y = parseFloat(vertex.getAttribute('y') || '0');
-      const z = parseFloat(vertex.getAttribute('z') || '0');
-      if (!isNaN(x) && !isNaN(y) && !isNaN(z)) {
-        // Convert to millimeters
-        allVertices.push({ 
-          x: x * unitFactor, 
-          y: y * unitFactor, 
-          z: z * unitFactor 
-        });
-      }
-    }
+export function scaleModel(model: PreparedModel, scale: number): PreparedModel {
+  // Sliced G-code is printed exactly as the slicer laid it out
+  if (scale === 1 || model.gcode) {
+    return model;
   }
-  
-  // Calculate centroid as reference point
-  let sumX = 0, sumY = 0, sumZ = 0;
-  for (const v of allVertices) {
-    sumX += v.x;
-    sumY += v.y;
-    sumZ += v.z;
+  return {
+    ...model,
+    mesh: model.mesh ? scaleMesh(model.mesh, scale) : null,
+    volume: model.volume * scale ** 3,
+  };
+}
+
+/**
+ * Rotate a prepared model into its print orientation
+ */
+export function orientModel(model: PreparedModel, rotation: Rotation | null | undefined): PreparedModel {
+  if (!rotation || !model.mesh || model.gcode) {
+    return model;
   }
-  const referencePoint = allVertices.length > 0
-    ? { x: sumX / allVertices.length, y: sumY / allVertices.length, z: sumZ / allVertices.length }
-    : { x: 0, y: 0, z: 0 };
-  
-  // Now calculate volume using the vertices we collected
-  let vertexIndex = 0;
-  let validTriangles = 0;
-  
-  for (let i = 0; i < meshes.length; i++) {
-    const mesh = meshes[i];
-    
-    // Get triangles
-    let trianglesElement = mesh.getElementsByTagName('triangles')[0];
-    if (!trianglesElement) {
-      const namespace = mesh.namespaceURI;
-      if (namespace) {
-        trianglesElement = mesh.getElementsByTagNameNS(namespace, 'triangles')[0];
-      }
-    }
-    
-    if (!trianglesElement) continue;
-    
-    const triangleElements = trianglesElement.getElementsByTagName('triangle');
-    
-    // Get vertices for this mesh
-    let verticesElement = mesh.getElementsByTagName('vertices')[0];
-    if (!verticesElement) {
-      const namespace = mesh.namespaceURI;
-      if (namespace) {
-        verticesElement = mesh.getElementsByTagNameNS(namespace, 'vertices')[0];
-      }
-    }
-    
-    if (!verticesElement) continue;
-    
-    const vertexElements = verticesElement.getElementsByTagName('vertex');
-    const meshVertices: Array<{ x: number; y: number; z: number }> = [];
-    
-    for (let j = 0; j < vertexElements.length; j++) {
-      const vertex = vertexElements[j];
-      const x = parseFloat(vertex.getAttribute('x') || '0');
-      const y = parseFloat(vertex.getAttribute('y') || '0');
-      const z = parseFloat(vertex.getAttribute('z') || '0');
-      if (!isNaN(x) && !isNaN(y) && !isNaN(z)) {
-        // Convert to millimeters
-        meshVertices.push({ 
-          x: x * unitFactor, 
-          y: y * unitFactor, 
-          z: z * unitFactor 
-        });
-      }
-    }
-    
-    // Calculate volume from triangles
-    for (let j = 0; j < triangleElements.length; j++) {
-      const triangle = triangleElements[j];
-      const v1Idx = parseInt(triangle.getAttribute('v1') || '-1');
-      const v2Idx = parseInt(triangle.getAttribute('v2') || '-1');
-      const v3Idx = parseInt(triangle.getAttribute('v3') || '-1');
-      
-      if (v1Idx >= 0 && v2Idx >= 0 && v3Idx >= 0 &&
-          v1Idx < meshVertices.length && v2Idx < meshVertices.length && v3Idx < meshVertices.length) {
-        const v1 = meshVertices[v1Idx];
-        const v2 = meshVertices[v2Idx];
-        const v3 = meshVertices[v3Idx];
-        
-        const volume = calculateTetrahedronVolume(v1, v2, v3, referencePoint);
-        if (isFinite(volume)) {
-          totalVolume += volume;
-          validTriangles++;
-        }
-      }
-    }
+  return { ...model, mesh: rotateMesh(model.mesh, rotation) };
+}
+
+/**
+ * Slice a prepared model; models without a measured mesh are sliced as a cube
+ * of their fallback volume
+ */
+export function sliceModel(
+  model: PreparedModel,
+  layerHeight: number,
+  onProgress?: (progress: number) => void
+): SliceResult {
+  if (model.mesh && model.solid) {
+    return sliceMesh(model.mesh, layerHeight, onProgress);
   }
-  
-  console.log(`3MF volume calculation: ${validTriangles} triangles, raw volume: ${totalVolume} mm³`);
-  
-  // Convert from mm³ to cm³ and take absolute value
-  const finalVolume = Math.abs(totalVolume) / 1000;
-  console.log(`3MF final volume: ${finalVolume} cm³`);
-  
-  return finalVolume;
+  return approximateSlices(model.volume, layerHeight);
 }
 
 /**
- * Calculate volume from a 3D file
+ * Extrusion regions of one sliced layer (areas in mm², lengths in mm)
  */
-export async function calculateFileVolume(file: File): Promise<number> {
-  const extension = file.name.toLowerCase().split('.').pop();
-  
-  console.log(`Calculating volume for ${file.name} (${extension}), size: ${file.size} bytes`);
-  
-  try {
-    let volume: number;
-    switch (extension) {
-      case 'stl':
-        volume = await calculateSTLVolume(file);
-        break;
-      case 'obj':
-        volume = await calculateOBJVolume(file);
-        break;
-      case '3mf':
-        volume = await calculate3MFVolume(file);
-        break;
-      default:
-        throw new Error(`Unsupported file format: ${extension}`);
-    }
-    
-    console.log(`Calculated volume: ${volume} cm³ for ${file.name}`);
-    
-    // Validate volume
-    if (!volume || volume <= 0 || !isFinite(volume)) {
-      console.warn(`Invalid volume ${volume} calculated, using fallback estimation`);
-      // Fallback: estimate based on file size
-      const fileSizeMB = file.size / (1024 * 1024);
-      return Math.max(0.1, fileSizeMB * 15); // Rough estimate, ensure minimum
+interface LayerRegions {
+  wallArea: number; // covered by perimeter lines
+  solidArea: number; // solid top/bottom skin
+  sparseArea: number; // interior filled at the infill percentage
+  perimeterLength: number; // total length of all perimeter lines
+  perimeterLoops: number; // closed perimeter lines, each printed as one move
+}
+
+/**
+ * Split every sliced layer into walls, solid skin and sparse infill
+ * A layer region is solid when it lies within the printer's top/bottom layer
+ * count of an up- or down-facing surface, i.e. where the neighbouring layers shrink.
+ */
+function computeLayerRegions(slices: SliceResult, printer: PrinterProfile): LayerRegions[] {
+  const { layers } = slices;
+  const wallWidth = printer.lineWidth * printer.perimeters;
+
+  return layers.map((layer, index) => {
+    // Smallest cross-section among the neighbouring skin layers; layers
+    // outside the part count as empty, so the first and last layers are solid
+    let coveredArea = layer.area;
+    for (let offset = -printer.topBottomLayers; offset <= printer.topBottomLayers; offset++) {
+      const neighbour = layers[index + offset];
+      coveredArea = Math.min(coveredArea, neighbour ? neighbour.area : 0);
     }
-    
-    return volume;
-  } catch (error) {
-    console.error('Error calculating volume:', error);
-    // Fallback: estimate based on file size
-    const fileSizeMB = file.size / (1024 * 1024);
-    const fallbackVolume = Math.max(0.1, fileSizeMB * 15); // Rough estimate, ensure minimum
-    console.log(`Using fallback volume estimate: ${fallbackVolume} cm³`);
-    return fallbackVolume;
-  }
+
+    const wallArea = Math.min(layer.area, layer.perimeter * wallWidth);
+    const interiorArea = layer.area - wallArea;
+    const solidArea = Math.min(interiorArea, layer.area - coveredArea);
+
+    return {
+      wallArea,
+      solidArea,
+      sparseArea: interiorArea - solidArea,
+      perimeterLength: layer.perimeter * printer.perimeters,
+      perimeterLoops: layer.contours.length * printer.perimeters,
+    };
+  });
 }
 
 /**
- * Estimate filament usage in grams using industry-standard calculation
- * Based on: shell volume (perimeters + top/bottom) + infill volume
+ * Estimate filament usage in grams from the sliced layers
+ * Based on: wall volume (perimeters) + solid top/bottom volume + infill volume
  */
 function estimateFilamentGrams(
-  volumeCm3: number,
+  regions: LayerRegions[],
   settings: PrintSettings
 ): number {
-  if (!volumeCm3 || volumeCm3 <= 0 || !isFinite(volumeCm3)) {
-    console.error('Invalid volume in estimateFilamentGrams:', volumeCm3);
-    return 0;
-  }
+  const { density } = getMaterial(settings.material);
   
-  const density = MATERIAL_DENSITIES[settings.material] || MATERIAL_DENSITIES.pla;
-  
-  // Convert volume to mm³ for calculations
-  const volumeMm3 = volumeCm3 * 1000;
-  
-  // Estimate model dimensions (assuming roughly cubic shape)
-  // Height estimate: cube root of volume
-  const estimatedHeight = Math.max(0.1, Math.cbrt(volumeMm3)); // Ensure minimum height
-  const estimatedBaseArea = Math.max(1, volumeMm3 / estimatedHeight); // mm², ensure minimum
-  const estimatedPerimeter = Math.sqrt(estimatedBaseArea) * 4; // approximate perimeter
-  
-  // Calculate shell volume (perimeters + top/bottom layers)
-  // Shell volume = (perimeter * height * line_width * num_perimeters) + (base_area * line_height * num_top_bottom_layers)
-  const perimeterVolume = estimatedPerimeter * estimatedHeight * STANDARD_LINE_WIDTH * STANDARD_PERIMETERS;
-  const topBottomVolume = estimatedBaseArea * settings.layerHeight * STANDARD_TOP_BOTTOM_LAYERS * 2; // top + bottom
-  const shellVolume = Math.max(0, (perimeterVolume + topBottomVolume) / 1000); // Convert to cm³, ensure non-negative
-  
-  // Calculate infill volume
-  // Infill volume = (total_volume - shell_volume) * infill_percentage
-  const infillVolume = Math.max(0, (volumeCm3 - shellVolume) * (settings.infill / 100));
-  
-  // Total material volume needed
-  const totalMaterialVolume = shellVolume + infillVolume;
+  // Extruded volume per layer = extruded area * layer height (mm³)
+  let materialVolumeMm3 = 0;
+  for (const region of regions) {
+    const extrudedArea = region.wallArea + region.solidArea + region.sparseArea * (settings.infill / 100);
+    materialVolumeMm3 += extrudedArea * settings.layerHeight;
+  }
   
-  // Add 5% for support material (if needed) and 3% for waste/prime tower
-  const adjustedVolume = totalMaterialVolume * 1.08;
+  // Add 3% for waste/prime tower; supports are estimated separately
+  const adjustedVolume = (materialVolumeMm3 / 1000) * 1.03;
   
   // Convert to grams: volume (cm³) * density (g/cm³) * quantity
   const grams = adjustedVolume * density * settings.quantity;
@@ -729,8 +333,8 @@ function estimateFilamentGrams(
 /**
  * Estimate filament length in meters
  */
-function estimateFilamentMeters(grams: number, material: string): number {
-  const density = MATERIAL_DENSITIES[material] || MATERIAL_DENSITIES.pla;
+function estimateFilamentMeters(grams: number, material: string, filamentDiameter: number): number {
+  const { density } = getMaterial(material);
   
   // Filament volume in cm³
   const volumeCm3 = grams / density;
@@ -739,7 +343,7 @@ function estimateFilamentMeters(grams: number, material: string): number {
   const volumeMm3 = volumeCm3 * 1000;
   
   // Length = volume / (π * r²)
-  const crossSectionArea = Math.PI * Math.pow(FILAMENT_RADIUS, 2);
+  const crossSectionArea = Math.PI * Math.pow(filamentDiameter / 2, 2);
   const lengthMm = volumeMm3 / crossSectionArea;
   
   // Convert to meters
@@ -747,148 +351,219 @@ function estimateFilamentMeters(grams: number, material: string): number {
 }
 
 /**
- * Estimate print time in minutes
+ * Seconds to print `count` equal lines of `totalLength` mm in all
+ * Each line accelerates to `speed` and brakes at its end; lines too short to
+ * reach it peak halfway.
+ */
+function linesTime(totalLength: number, count: number, speed: number, acceleration: number): number {
+  if (totalLength <= 0 || count <= 0) {
+    return 0;
+  }
+  const length = totalLength / count;
+  const rampLength = (speed * speed) / acceleration; // accelerating plus braking
+  const lineSeconds = length >= rampLength
+    ? length / speed + speed / acceleration
+    : 2 * Math.sqrt(length / acceleration);
+  return lineSeconds * count;
+}
+
+/**
+ * Estimate print time in minutes from the sliced layers
+ * Parts nested on one plate print together: every part is extruded, but the
+ * layer changes and heat-up happen once per plate.
  */
 function estimatePrintTime(
-  volumeCm3: number,
-  settings: PrintSettings
+  regions: LayerRegions[],
+  settings: PrintSettings,
+  plates: number
 ): number {
-  // Estimate layer count
-  // Assume average model height of 50mm (this is a rough estimate)
-  // In a real implementation, we'd calculate actual model height
-  const estimatedHeight = Math.cbrt(volumeCm3 * 1000) * 0.8; // Rough estimate
-  const layerCount = Math.max(1, Math.ceil(estimatedHeight / settings.layerHeight));
-  
-  // Estimate print area per layer
-  const baseArea = volumeCm3 * 1000 / estimatedHeight; // mm²
-  
-  // Time calculations
-  // Perimeters: assume 2 perimeters, average perimeter length
-  const perimeterLength = Math.sqrt(baseArea) * 4 * 2; // Rough estimate
-  const perimeterTime = (perimeterLength * layerCount) / PRINT_SPEEDS.perimeters;
-  
-  // Infill: based on infill percentage
-  const infillArea = baseArea * (settings.infill / 100);
-  const infillLength = infillArea / 0.4; // Assume 0.4mm line width
-  const infillTime = (infillLength * layerCount) / PRINT_SPEEDS.infill;
+  const { lineWidth, speeds, accelerations } = settings.printer ?? DEFAULT_PRINTER;
+  let partSeconds = 0;
+  
+  regions.forEach((region, index) => {
+    // Perimeters, with the first layer printed slower for adhesion
+    const firstLayer = index === 0;
+    const perimeterTime = linesTime(
+      region.perimeterLength,
+      region.perimeterLoops,
+      firstLayer ? speeds.firstLayer : speeds.perimeters,
+      firstLayer ? accelerations.firstLayer : accelerations.perimeters
+    );
+    
+    // Solid skin and sparse infill are laid down as lines one line width apart, each spanning the interior
+    const interiorArea = region.solidArea + region.sparseArea;
+    const infillLength = (region.solidArea + region.sparseArea * (settings.infill / 100)) / lineWidth;
+    const infillTime = linesTime(
+      infillLength,
+      interiorArea > 0 ? Math.ceil(infillLength / Math.sqrt(interiorArea)) : 0,
+      firstLayer ? speeds.firstLayer : speeds.infill,
+      firstLayer ? accelerations.firstLayer : accelerations.infill
+    );
+    
+    partSeconds += perimeterTime + infillTime;
+  });
+  
+  // Layer changes once per plate, travel between the parts sharing it
+  const layerSeconds = regions.length * (LAYER_CHANGE_SECONDS * plates + PART_TRAVEL_SECONDS * (settings.quantity - plates));
+  const totalSeconds = partSeconds * settings.quantity + layerSeconds + PLATE_SETUP_MINUTES * 60 * plates;
+  
+  // Convert to minutes and add 20% buffer for cleanup, plate swaps, etc.
+  return (totalSeconds / 60) * 1.2;
+}
+
+/**
+ * Estimate support filament (grams) and print time (minutes) from the overhang analysis
+ * Without an analysis (unmeasured models) a share of the part's filament is assumed.
+ */
+function estimateSupports(
+  supports: SupportAnalysis | null,
+  partGrams: number,
+  partTime: number,
+  settings: PrintSettings
+): { grams: number; time: number } {
+  const mode = settings.supports ?? 'auto';
+  if (mode === 'none') {
+    return { grams: 0, time: 0 };
+  }
+  if (!supports) {
+    return { grams: partGrams * FALLBACK_SUPPORT_SHARE, time: partTime * FALLBACK_SUPPORT_SHARE };
+  }
   
-  // First layer is slower
-  const firstLayerTime = (perimeterLength / PRINT_SPEEDS.firstLayer);
+  const { density } = getMaterial(settings.material);
+  const { lineWidth, speeds, accelerations } = settings.printer ?? DEFAULT_PRINTER;
+  const { area, volume } = getSupportRegion(supports, mode);
   
-  // Add time for layer changes (5 seconds per layer)
-  const layerChangeTime = layerCount * 5;
+  // Sparse columns plus the dense interface layers, never more than the solid volume
+  const interfaceVolume = area * SUPPORT_INTERFACE_LAYERS * settings.layerHeight;
+  const extrudedMm3 = Math.min(volume, volume * SUPPORT_DENSITY + interfaceVolume);
   
-  // Total time in seconds
-  const totalSeconds = perimeterTime + infillTime + firstLayerTime + layerChangeTime;
+  // Same waste allowance and time buffer as the part itself
+  const grams = (extrudedMm3 / 1000) * 1.03 * density * settings.quantity;
+  // Lines span the supported area, like the part's infill
+  const lineLength = extrudedMm3 / (lineWidth * settings.layerHeight);
+  const lineCount = area > 0 ? Math.ceil(lineLength / Math.sqrt(area)) : 0;
+  const time = (linesTime(lineLength, lineCount, speeds.support, accelerations.support) / 60) * 1.2 * settings.quantity;
   
-  // Convert to minutes and add 20% buffer for setup, cleanup, etc.
-  return (totalSeconds / 60) * 1.2 * settings.quantity;
+  return { grams, time };
 }
 
 /**
- * Calculate price estimate based on print time and speed
+ * Calculate price estimate based on print time, speed and filament used
+ * Print time is charged at the hourly rate of `settings.printer` and every
+ * other rate comes from `settings.rateCard`, both of which the quote records;
+ * prices are converted from the card's currency to its location's, and the
+ * location's sales taxes are added on top.
  */
 function calculatePrice(
   estimatedTime: number,
+  filamentGrams: number,
   settings: PrintSettings
-): { totalPrice: number; manufacturingPrice: number; deliveryPrice: number } {
-  // Base machine time cost per hour (CAD)
-  const baseRatePerHour = 15.0; // $15/hour base rate
-  
-  // Speed multipliers (rush orders cost more)
-  const speedMultipliers: Record<string, number> = {
-    instant: 5.0,  // 400% premium for same day
-    fast: 2.5,     // 150% premium for 1-2 days
-    regular: 1.0,  // Base rate for 1-5 days
-  };
-  
-  // Calculate base time cost
+): {
+  totalPrice: number;
+  manufacturingPrice: number;
+  materialPrice: number;
+  deliveryPrice: number;
+  taxes: TaxLine[];
+  currency: CurrencyCode;
+  rateCard: string;
+  printer: string;
+} {
+  const card = settings.rateCard ?? getActiveRateCard('toronto');
+  const printer = settings.printer ?? DEFAULT_PRINTER;
+  const currency = LOCATION_CURRENCIES[card.location];
+  
+  // Calculate base time cost at the printer's rate, which is in CAD; the estimated time covers every plate of the quantity
   const timeHours = estimatedTime / 60;
-  const baseTimeCost = timeHours * baseRatePerHour;
+  const baseTimeCost = timeHours * convertCurrency(printer.hourlyRate, 'CAD', card.currency);
   
-  // Apply speed multiplier
+  // Apply speed multiplier (rush orders cost more)
   const speed = settings.speed || 'regular';
-  const speedMultiplier = speedMultipliers[speed] || 1.0;
-  
-  // Calculate price per unit based on time and speed
-  const pricePerUnit = baseTimeCost * speedMultiplier;
+  const speedMultiplier = card.speedMultipliers[speed] ?? 1.0;
+  const timeCost = baseTimeCost * speedMultiplier;
   
-  // Minimum charge (setup fee)
-  const minimumCharge = 10.0; // $10 minimum order
+  // Filament at the catalog price, which is in CAD; rush turnaround doesn't change it
+  const materialCost = convertCurrency((filamentGrams / 1000) * getMaterial(settings.material).pricePerKg, 'CAD', card.currency);
   
-  // Apply minimum charge
-  const priceWithMinimum = Math.max(minimumCharge, pricePerUnit);
+  // Apply minimum charge (setup fee)
+  const priceWithMinimum = Math.max(card.minimumCharge, timeCost + materialCost);
   
-  // Quantity discount (bulk orders get discount)
-  const getQuantityDiscount = (qty: number): number => {
-    if (qty >= 10) return 0.15; // 15% off for 10+
-    if (qty >= 5) return 0.10;  // 10% off for 5+
-    if (qty >= 3) return 0.05;  // 5% off for 3+
-    return 0; // No discount for 1-2
-  };
-  
-  // Apply quantity discount
-  const quantityDiscount = getQuantityDiscount(settings.quantity);
-  const discountedPricePerUnit = priceWithMinimum * (1 - quantityDiscount);
+  // Total manufacturing price for quantity, with the bulk discount
+  const discount = getQuantityDiscount(card, settings.quantity);
+  const manufacturingPrice = priceWithMinimum * (1 - discount);
+  const materialPrice = materialCost * (1 - discount);
   
-  // Total manufacturing price for quantity
-  const manufacturingPrice = discountedPricePerUnit * settings.quantity;
-  
-  // Calculate delivery fee if local delivery is selected
+  // Calculate delivery fee if local delivery is selected and offered
   let deliveryPrice = 0;
-  if (settings.delivery === 'delivery' && settings.deliveryDistance !== null && settings.deliveryDistance !== undefined) {
-    const distanceKm = settings.deliveryDistance;
-    
-    // Average driving speed in Toronto (km/h) - accounting for traffic
-    const averageSpeedKmh = 40; // Conservative estimate for city driving
+  if (card.delivery && settings.delivery === 'delivery' && settings.deliveryDistance !== null && settings.deliveryDistance !== undefined) {
+    const { ratePerHour, averageSpeedKmh, minimumFee } = card.delivery;
     
-    // Calculate travel time one way (hours)
-    const travelTimeOneWay = distanceKm / averageSpeedKmh;
+    // Charge for the round trip (back and forth)
+    const totalTravelTime = (settings.deliveryDistance / averageSpeedKmh) * 2;
     
-    // Charge for round trip (back and forth)
-    const totalTravelTime = travelTimeOneWay * 2;
-    
-    // Delivery rate per hour
-    const deliveryRatePerHour = 25.0; // $25/hour
-    
-    // Calculate delivery fee based on travel time
-    const deliveryFee = totalTravelTime * deliveryRatePerHour;
-    
-    // Minimum delivery fee
-    const minimumDeliveryFee = 10.0; // $10 minimum
-    
-    deliveryPrice = Math.max(minimumDeliveryFee, deliveryFee);
+    deliveryPrice = Math.max(minimumFee, totalTravelTime * ratePerHour);
   }
   
-  // Total price is manufacturing + delivery
-  const totalPrice = manufacturingPrice + deliveryPrice;
+  // Taxes are charged on the prices as quoted, in the location's currency
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const quotedManufacturingPrice = round(convertCurrency(manufacturingPrice, card.currency, currency));
+  const quotedMaterialPrice = round(convertCurrency(materialPrice, card.currency, currency));
+  const quotedDeliveryPrice = round(convertCurrency(deliveryPrice, card.currency, currency));
+  const taxes = settings.taxExempt
+    ? []
+    : calculateTaxes(LOCATION_TAX_RULES[card.location], quotedManufacturingPrice, quotedDeliveryPrice);
+  
+  // Total price is manufacturing + delivery + taxes
+  const totalPrice = quotedManufacturingPrice + quotedDeliveryPrice + sumTaxes(taxes);
   
   return {
     totalPrice,
-    manufacturingPrice,
-    deliveryPrice,
+    manufacturingPrice: quotedManufacturingPrice,
+    materialPrice: quotedMaterialPrice,
+    deliveryPrice: quotedDeliveryPrice,
+    taxes,
+    currency,
+    rateCard: card.id,
+    printer: printer.id,
   };
 }
 
 /**
- * Calculate complete print estimate
+ * Nest the order quantity of a part onto the plate
+ * `dimensions` is the part's size in its print orientation, at print scale.
  */
-export async function calculatePrintEstimate(
-  file: File,
-  settings: PrintSettings
-): Promise<PrintEstimate> {
-  const volume = await calculateFileVolume(file);
-  
+export function nestModel(dimensions: ModelDimensions, settings: PrintSettings): PlateLayout {
+  return nestParts(dimensions, settings.quantity, (settings.printer ?? DEFAULT_PRINTER).buildVolume);
+}
+
+/**
+ * Calculate the print estimate for an already sliced part
+ * `supports` is the overhang analysis of the part at the same scale and
+ * `plate` the quantity nested on the plate; both are null when the part has
+ * no measured mesh, which then prints one part per plate.
+ */
+export function estimateFromSlices(
+  volume: number,
+  slices: SliceResult,
+  settings: PrintSettings,
+  supports: SupportAnalysis | null = null,
+  plate: PlateLayout | null = null
+): PrintEstimate {
   // Validate volume
   if (!volume || volume <= 0 || !isFinite(volume)) {
-    console.error('Invalid volume calculated:', volume, 'for file:', file.name);
-    throw new Error(`Failed to calculate volume for ${file.name}. The file may be corrupted or in an unsupported format.`);
+    console.error('Invalid volume calculated:', volume);
+    throw new Error('Failed to calculate volume. The file may be corrupted or in an unsupported format.');
   }
   
-  const filamentGrams = estimateFilamentGrams(volume, settings);
-  const filamentMeters = estimateFilamentMeters(filamentGrams, settings.material);
-  const estimatedTime = estimatePrintTime(volume, settings);
-  const priceBreakdown = calculatePrice(estimatedTime, settings);
+  const printer = settings.printer ?? DEFAULT_PRINTER;
+  const regions = computeLayerRegions(slices, printer);
+  const partGrams = estimateFilamentGrams(regions, settings);
+  const plates = plate?.plates ?? settings.quantity;
+  const partTime = estimatePrintTime(regions, settings, plates);
+  const support = estimateSupports(supports, partGrams, partTime, settings);
+  const filamentGrams = partGrams + support.grams;
+  const filamentMeters = estimateFilamentMeters(filamentGrams, settings.material, printer.filamentDiameter);
+  const estimatedTime = partTime + support.time;
+  const priceBreakdown = calculatePrice(estimatedTime, filamentGrams, settings);
   
   // Validate all results
   if (!isFinite(filamentGrams) || !isFinite(filamentMeters) || !isFinite(estimatedTime) || 
@@ -902,8 +577,146 @@ export async function calculatePrintEstimate(
     filamentGrams: Math.round(filamentGrams * 10) / 10,
     filamentMeters: Math.round(filamentMeters * 10) / 10,
     estimatedTime: Math.round(estimatedTime),
+    supportGrams: Math.round(support.grams * 10) / 10,
+    supportTime: Math.round(support.time),
+    layerCount: slices.layers.length,
+    plates,
     price: Math.round(priceBreakdown.totalPrice * 100) / 100, // Round to 2 decimals
     manufacturingPrice: Math.round(priceBreakdown.manufacturingPrice * 100) / 100,
+    materialPrice: priceBreakdown.materialPrice,
+    deliveryPrice: Math.round(priceBreakdown.deliveryPrice * 100) / 100,
+    taxes: priceBreakdown.taxes,
+    currency: priceBreakdown.currency,
+    rateCard: priceBreakdown.rateCard,
+    printer: priceBreakdown.printer,
+  };
+}
+
+/**
+ * Calculate the print estimate for uploaded G-code from the slicer's own
+ * filament and time figures instead of the layer heuristics. Figures the
+ * slicer did not report are measured from the toolpath.
+ */
+export function estimateFromGcode(
+  gcode: ParsedGcode,
+  settings: PrintSettings
+): PrintEstimate {
+  const { report, toolpath } = gcode;
+  const { density } = getMaterial(settings.material);
+  const { filamentDiameter } = settings.printer ?? DEFAULT_PRINTER;
+  
+  // Slicer figures are per print; the order prints it `quantity` times
+  const volume = getGcodeFilamentVolume(gcode, settings.material, filamentDiameter);
+  const gramsPerPrint = report.filamentGrams ?? volume * density;
+  const minutesPerPrint = report.printTime ?? toolpath.duration;
+  
+  if (!(gramsPerPrint > 0) || !(minutesPerPrint > 0)) {
+    console.error('G-code has no usable filament or time figures:', report);
+    throw new Error('The G-code contains no extrusion moves.');
+  }
+  
+  const filamentGrams = gramsPerPrint * settings.quantity;
+  const filamentMeters = (report.filamentMeters ?? estimateFilamentMeters(gramsPerPrint, settings.material, filamentDiameter)) * settings.quantity;
+  const estimatedTime = minutesPerPrint * settings.quantity;
+  const priceBreakdown = calculatePrice(estimatedTime, filamentGrams, settings);
+  
+  return {
+    volume: Math.round(volume * 10) / 10,
+    filamentGrams: Math.round(filamentGrams * 10) / 10,
+    filamentMeters: Math.round(filamentMeters * 10) / 10,
+    estimatedTime: Math.round(estimatedTime),
+    supportGrams: 0, // included in the slicer's figures, which don't break it out
+    supportTime: 0,
+    layerCount: toolpath.layerZ.length,
+    plates: settings.quantity, // the G-code is one plate as the slicer laid it out
+    price: Math.round(priceBreakdown.totalPrice * 100) / 100,
+    manufacturingPrice: Math.round(priceBreakdown.manufacturingPrice * 100) / 100,
+    materialPrice: priceBreakdown.materialPrice,
     deliveryPrice: Math.round(priceBreakdown.deliveryPrice * 100) / 100,
+    taxes: priceBreakdown.taxes,
+    currency: priceBreakdown.currency,
+    rateCard: priceBreakdown.rateCard,
+    printer: priceBreakdown.printer,
+  };
+}
+
+/**
+ * Split an estimate over the parts of a model in proportion to their volume
+ * Parts are sliced and printed together, so only the plate total is measured.
+ */
+export function splitEstimateByPart(estimate: PrintEstimate, parts: ModelPart[]): PrintEstimate {
+  const totalVolume = parts.reduce((sum, part) => sum + part.volume, 0);
+  if (parts.length < 2 || !(totalVolume > 0)) {
+    return estimate;
+  }
+  
+  return {
+    ...estimate,
+    parts: parts.map((part) => {
+      const share = part.volume / totalVolume;
+      return {
+        name: part.name,
+        volume: Math.round(part.volume * 10) / 10,
+        filamentGrams: Math.round(estimate.filamentGrams * share * 10) / 10,
+        manufacturingPrice: Math.round(estimate.manufacturingPrice * share * 100) / 100,
+      };
+    }),
+  };
+}
+
+/**
+ * Attach the shells of a model at print scale when there is more than one
+ */
+export function addShells(estimate: PrintEstimate, shells: MeshShell[]): PrintEstimate {
+  if (shells.length < 2) {
+    return estimate;
+  }
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    ...estimate,
+    shells: shells.map((shell) => ({
+      ...shell,
+      volume: round(shell.volume),
+      dimensions: { x: round(shell.dimensions.x), y: round(shell.dimensions.y), z: round(shell.dimensions.z) },
+    })),
+  };
+}
+
+/**
+ * Add up the estimates of the files in a multi-file order, or null without any
+ * Each file is estimated with the same delivery settings, so delivery is
+ * charged once rather than summed, and the totals are taxed with `taxRules`
+ * (empty for tax-exempt orders).
+ */
+export function combineEstimates(estimates: PrintEstimate[], taxRules: TaxRule[]): PrintEstimate | null {
+  if (estimates.length === 0) {
+    return null;
+  }
+
+  const sum = (value: (estimate: PrintEstimate) => number) =>
+    estimates.reduce((total, estimate) => total + value(estimate), 0);
+
+  const manufacturingPrice = sum((estimate) => estimate.manufacturingPrice);
+  const deliveryPrice = Math.max(0, ...estimates.map((estimate) => estimate.deliveryPrice));
+  // Taxed again on the totals so delivery is taxed once
+  const taxes = calculateTaxes(taxRules, manufacturingPrice, deliveryPrice);
+
+  return {
+    volume: Math.round(sum((estimate) => estimate.volume) * 10) / 10,
+    filamentGrams: Math.round(sum((estimate) => estimate.filamentGrams) * 10) / 10,
+    filamentMeters: Math.round(sum((estimate) => estimate.filamentMeters) * 10) / 10,
+    estimatedTime: Math.round(sum((estimate) => estimate.estimatedTime)),
+    supportGrams: Math.round(sum((estimate) => estimate.supportGrams) * 10) / 10,
+    supportTime: Math.round(sum((estimate) => estimate.supportTime)),
+    layerCount: Math.max(0, ...estimates.map((estimate) => estimate.layerCount)),
+    plates: sum((estimate) => estimate.plates),
+    price: Math.round((manufacturingPrice + deliveryPrice + sumTaxes(taxes)) * 100) / 100,
+    manufacturingPrice: Math.round(manufacturingPrice * 100) / 100,
+    materialPrice: Math.round(sum((estimate) => estimate.materialPrice) * 100) / 100,
+    deliveryPrice,
+    taxes,
+    currency: estimates[0].currency,
+    rateCard: estimates[0].rateCard, // every file is priced with the location's card
+    printer: estimates[0].printer, // and timed on its printer
   };
 }
@@ -0,0 +1,88 @@
+/**
+ * Part dimensions and printer build-volume fit checks
+ */
+
+import { computeMeshBounds, type IndexedMesh } from '@/lib/mesh';
+import type { Toolpath } from '@/lib/parsers/gcode';
+
+export interface BuildVolume {
+  width: number; // X, mm
+  depth: number; // Y, mm
+  height: number; // Z, mm
+}
+
+export interface ModelDimensions {
+  x: number; // mm
+  y: number; // mm
+  z: number; // mm
+}
+
+export type DimensionAxis = keyof ModelDimensions;
+
+export interface BuildVolumeFit {
+  fits: boolean;
+  oversizedAxes: DimensionAxis[]; // axes that exceed the build volume in the part's current orientation
+}
+
+/**
+ * Real-world size of the mesh along each axis in mm
+ */
+export function getMeshDimensions(mesh: IndexedMesh): ModelDimensions {
+  if (mesh.vertices.length === 0) {
+    return { x: 0, y: 0, z: 0 };
+  }
+  const { min, max } = computeMeshBounds(mesh);
+  return { x: max.x - min.x, y: max.y - min.y, z: max.z - min.z };
+}
+
+/**
+ * Size of the part a G-code toolpath prints, measured up from the plate
+ */
+export function getToolpathDimensions(toolpath: Toolpath): ModelDimensions {
+  if (!toolpath.bounds) {
+    return { x: 0, y: 0, z: 0 };
+  }
+  const { min, max } = toolpath.bounds;
+  return { x: max.x - min.x, y: max.y - min.y, z: max.z - min.z };
+}
+
+/**
+ * Scale dimensions by a uniform factor
+ */
+export function scaleDimensions(dimensions: ModelDimensions, scale: number): ModelDimensions {
+  return { x: dimensions.x * scale, y: dimensions.y * scale, z: dimensions.z * scale };
+}
+
+/**
+ * Check whether a part fits on the plate. Turning the part 90° on the plate
+ * is free, so X and Y may be swapped; the height has to fit as-is.
+ */
+export function checkBuildVolumeFit(dimensions: ModelDimensions, buildVolume: BuildVolume): BuildVolumeFit {
+  const fitsAsIs = dimensions.x <= buildVolume.width && dimensions.y <= buildVolume.depth;
+  const fitsTurned = dimensions.y <= buildVolume.width && dimensions.x <= buildVolume.depth;
+  const fitsHeight = dimensions.z <= buildVolume.height;
+
+  const oversizedAxes: DimensionAxis[] = [];
+  if (!fitsAsIs && !fitsTurned) {
+    if (dimensions.x > buildVolume.width) oversizedAxes.push('x');
+    if (dimensions.y > buildVolume.depth) oversizedAxes.push('y');
+  }
+  if (!fitsHeight) oversizedAxes.push('z');
+
+  return { fits: oversizedAxes.length === 0, oversizedAxes };
+}
+
+/**
+ * Format dimensions as "X × Y × Z mm"
+ */
+export function formatDimensions(dimensions: ModelDimensions): string {
+  const format = (value: number) => value < 10 ? value.toFixed(1) : Math.round(value).toString();
+  return `${format(dimensions.x)} × ${format(dimensions.y)} × ${format(dimensions.z)} mm`;
+}
+
+/**
+ * Format a build volume as "W×D×H mm"
+ */
+export function formatBuildVolume(buildVolume: BuildVolume): string {
+  return `${buildVolume.width}×${buildVolume.depth}×${buildVolume.height} mm`;
+}
@@ -0,0 +1,41 @@
+/**
+ * Currencies quotes are priced in, and the conversion table for rate cards
+ * authored in another currency than their location charges in
+ */
+
+export const CURRENCY_CODES = ['CAD', 'USD'] as const;
+
+export type CurrencyCode = (typeof CURRENCY_CODES)[number];
+
+const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+  CAD: '$',
+  USD: '$',
+};
+
+// Value of one unit of each currency in CAD, as of 2026-10-01; keep the date with the rates
+const CAD_PER_UNIT: Record<CurrencyCode, number> = {
+  CAD: 1,
+  USD: 1.38,
+};
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return CURRENCY_CODES.includes(value as CurrencyCode);
+}
+
+/**
+ * Convert an amount between currencies at the table's rates
+ */
+export function convertCurrency(amount: number, from: CurrencyCode, to: CurrencyCode): number {
+  if (from === to) {
+    return amount;
+  }
+  return (amount * CAD_PER_UNIT[from]) / CAD_PER_UNIT[to];
+}
+
+/**
+ * Format a price, e.g. "$12.50 USD"; `withCode` false leaves off the code for compact lists
+ */
+export function formatPrice(amount: number, currency: CurrencyCode, withCode = true): string {
+  const formatted = `${CURRENCY_SYMBOLS[currency]}${amount.toFixed(2)}`;
+  return withCode ? `${formatted} ${currency}` : formatted;
+}
@@ -0,0 +1,174 @@
+/**
+ * Main-thread client for the estimate worker
+ *
+ * `loadModel` parses a file once and returns a cache key; `estimateModel`
+ * reruns only the estimation step for that key whenever settings change and
+ * `exportRepairedModel` fetches the repaired mesh as a file. All accept an
+ * AbortSignal to cancel superseded work. `retainModels` tells the worker which
+ * models the order still holds, so only the others are evicted.
+ */
+
+import type { PrintEstimate, PrintSettings } from '@/lib/3d-utils';
+import { getRepairedFileName } from '@/lib/mesh-export';
+import type {
+  EstimateStage,
+  EstimateWorkerRequest,
+  EstimateWorkerResponse,
+  LoadedModel,
+} from '@/lib/estimate-worker-protocol';
+
+export type { EstimateStage, LoadedModel } from '@/lib/estimate-worker-protocol';
+
+export interface JobOptions {
+  signal?: AbortSignal;
+  onProgress?: (stage: EstimateStage, progress: number | null) => void;
+}
+
+export interface LoadOptions extends JobOptions {
+  overhangAngle?: number; // degrees from vertical, as in the estimates; ranks the suggested orientations
+}
+
+interface PendingJob {
+  resolve: (response: EstimateWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: JobOptions['onProgress'];
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+// Files by cache key, so a model evicted from the worker cache can be reloaded
+const loadedFiles = new Map<string, File>();
+
+class ModelNotLoadedError extends Error {}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./estimate-worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<EstimateWorkerResponse>) => handleResponse(event.data);
+    worker.onerror = (event) => {
+      console.error('Estimate worker crashed:', event.message);
+      const error = new Error(event.message || 'Estimate worker crashed');
+      pendingJobs.forEach((job) => job.reject(error));
+      pendingJobs.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function handleResponse(response: EstimateWorkerResponse): void {
+  const job = pendingJobs.get(response.id);
+  if (!job) return; // Cancelled on this side already
+
+  switch (response.type) {
+    case 'progress':
+      job.onProgress?.(response.stage, response.progress);
+      return;
+    case 'cancelled':
+      pendingJobs.delete(response.id);
+      job.reject(new DOMException('Estimate cancelled', 'AbortError'));
+      return;
+    case 'error':
+      pendingJobs.delete(response.id);
+      job.reject(response.notLoaded ? new ModelNotLoadedError(response.message) : new Error(response.message));
+      return;
+    default:
+      pendingJobs.delete(response.id);
+      job.resolve(response);
+  }
+}
+
+function runJob(createRequest: (id: number) => EstimateWorkerRequest, options: JobOptions): Promise<EstimateWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      reject(new DOMException('Estimate cancelled', 'AbortError'));
+      return;
+    }
+
+    const id = nextJobId++;
+    const target = getWorker();
+    pendingJobs.set(id, { resolve, reject, onProgress });
+
+    signal?.addEventListener('abort', () => {
+      if (!pendingJobs.delete(id)) return;
+      target.postMessage({ type: 'cancel', id } satisfies EstimateWorkerRequest);
+      reject(new DOMException('Estimate cancelled', 'AbortError'));
+    }, { once: true });
+
+    target.postMessage(createRequest(id));
+  });
+}
+
+/**
+ * Parse a model file in the worker (or reuse the cached parse of identical content)
+ */
+export async function loadModel(file: File, options: LoadOptions = {}): Promise<LoadedModel> {
+  const response = await runJob((id) => ({ type: 'load', id, file, overhangAngle: options.overhangAngle }), options);
+  if (response.type !== 'loaded') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  loadedFiles.set(response.model.key, file);
+  return response.model;
+}
+
+/**
+ * Estimate a loaded model with the given settings
+ */
+export async function estimateModel(key: string, settings: PrintSettings, options: JobOptions = {}): Promise<PrintEstimate> {
+  const run = () => runJob((id) => ({ type: 'estimate', id, key, settings }), options);
+
+  let response: EstimateWorkerResponse;
+  try {
+    response = await run();
+  } catch (error) {
+    const file = loadedFiles.get(key);
+    if (!(error instanceof ModelNotLoadedError) || !file) throw error;
+    // The worker evicted this model; parse it again and retry once
+    await loadModel(file, { ...options, overhangAngle: settings.overhangAngle });
+    response = await run();
+  }
+
+  if (response.type !== 'estimated') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.estimate;
+}
+
+/**
+ * The repaired mesh of a loaded model as a binary STL named after `fileName`
+ */
+export async function exportRepairedModel(key: string, fileName: string, options: JobOptions = {}): Promise<File> {
+  const run = () => runJob((id) => ({ type: 'export', id, key }), options);
+
+  let response: EstimateWorkerResponse;
+  try {
+    response = await run();
+  } catch (error) {
+    const file = loadedFiles.get(key);
+    if (!(error instanceof ModelNotLoadedError) || !file) throw error;
+    // Evicted like in `estimateModel`; parse it again and retry once
+    await loadModel(file, options);
+    response = await run();
+  }
+
+  if (response.type !== 'exported') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return new File([response.data], getRepairedFileName(fileName), { type: 'model/stl' });
+}
+
+/**
+ * Keep the models with these keys cached in the worker; the others may be evicted
+ */
+export function retainModels(keys: string[]): void {
+  if (!worker && keys.length === 0) return; // nothing cached yet
+  getWorker().postMessage({ type: 'retain', keys } satisfies EstimateWorkerRequest);
+}
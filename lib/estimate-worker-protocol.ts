@@ -0,0 +1,50 @@
+/**
+ * Messages exchanged between the page and the estimate worker
+ */
+
+import type { ModelDimensions } from '@/lib/build-volume';
+import type { IndexedMesh, MeshUnit } from '@/lib/mesh';
+import type { MeshHealthReport } from '@/lib/mesh-analysis';
+import type { MeshRepairSummary } from '@/lib/mesh-repair';
+import type { OrientationCandidate } from '@/lib/orientation';
+import type { ParsedGcode } from '@/lib/parsers/gcode';
+import type { SlicerProject } from '@/lib/parsers/three-mf-project';
+import type { ThicknessAnalysis } from '@/lib/thickness';
+import type { PrintEstimate, PrintSettings } from '@/lib/3d-utils';
+
+export type EstimateStage = 'reading' | 'parsing' | 'analyzing' | 'preview' | 'thickness' | 'orienting' | 'slicing' | 'supports' | 'estimating';
+
+/**
+ * What the page gets of a parsed model; the full mesh stays in the worker,
+ * which estimates and exports it by `key`
+ */
+export interface LoadedModel {
+  key: string; // content hash identifying the parsed model in the worker cache
+  preview: IndexedMesh | null; // repaired mesh for the viewer, decimated above the preview budget; null when the file could not be parsed
+  triangleCount: number; // of the full repaired mesh, 0 without one
+  units: MeshUnit; // unit the file declares, 'unknown' for unitless formats
+  dimensions: ModelDimensions | null; // size as uploaded, mm; null without a mesh
+  volume: number; // cm³
+  solid: boolean; // false when the volume is a file-size fallback
+  repairs: MeshRepairSummary | null; // fixes applied before quoting
+  health: MeshHealthReport | null; // problems left after repair, null when there is no mesh to analyze
+  thickness: ThicknessAnalysis | null; // per-face wall thickness of `preview`, null when it is decimated, unmeasured or too large to check
+  gcode: ParsedGcode | null; // slicer report and toolpath of G-code uploads
+  project: SlicerProject | null; // print settings saved in a slicer project 3MF
+  orientations: OrientationCandidate[]; // suggested print orientations, best first; empty without a measured mesh
+}
+
+export type EstimateWorkerRequest =
+  | { type: 'load'; id: number; file: File; overhangAngle?: number } // angle the orientations are ranked at
+  | { type: 'estimate'; id: number; key: string; settings: PrintSettings }
+  | { type: 'export'; id: number; key: string } // the repaired mesh as binary STL
+  | { type: 'cancel'; id: number }
+  | { type: 'retain'; keys: string[] }; // models of the files still in the order, never evicted
+
+export type EstimateWorkerResponse =
+  | { type: 'progress'; id: number; stage: EstimateStage; progress: number | null }
+  | { type: 'loaded'; id: number; model: LoadedModel }
+  | { type: 'estimated'; id: number; estimate: PrintEstimate }
+  | { type: 'exported'; id: number; data: ArrayBuffer }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string; notLoaded?: boolean };
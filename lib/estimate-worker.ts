@@ -0,0 +1,370 @@
+/**
+ * Web Worker that parses models and runs print estimates off the main thread
+ *
+ * Parsed models are cached by content hash (sampled for large binary STLs,
+ * which are streamed rather than read whole), their suggested orientations by
+ * overhang angle, their slices by layer height, scale and orientation, their
+ * overhang analysis by overhang angle and orientation and their shells and
+ * mass distribution by orientation, so
+ * changing material, infill, quantity, speed, supports or delivery only reruns
+ * the cheap nesting, stability and estimation steps. G-code is never sliced;
+ * it is estimated from the slicer's own figures.
+ *
+ * Full meshes never leave the worker: the page gets a preview to draw, and
+ * estimates and repaired-file exports are requested by cache key. Models of
+ * files still in the order are never evicted, so re-estimating a large order
+ * doesn't parse every file again.
+ */
+
+import {
+  addShells,
+  estimateFromGcode,
+  estimateFromSlices,
+  getModelParts,
+  nestModel,
+  orientModel,
+  prepareModel,
+  scaleModel,
+  sliceModel,
+  splitEstimateByPart,
+  type ModelPart,
+  type PreparedModel,
+  type PrintSettings,
+} from '@/lib/3d-utils';
+import { getMeshDimensions, scaleDimensions } from '@/lib/build-volume';
+import { analyzeMesh, type MeshHealthReport } from '@/lib/mesh-analysis';
+import { PREVIEW_TRIANGLE_BUDGET, decimateMesh } from '@/lib/mesh-decimate';
+import { meshToBinarySTL } from '@/lib/mesh-export';
+import { findShells, scaleShells, type MeshShell } from '@/lib/mesh-shells';
+import type { IndexedMesh } from '@/lib/mesh';
+import { getFileExtension } from '@/lib/mesh-parser';
+import { findOrientations, type OrientationCandidate } from '@/lib/orientation';
+import { isStreamableSTL } from '@/lib/parsers/stl';
+import { read3MFProject, type SlicerProject } from '@/lib/parsers/three-mf-project';
+import { assessStability, measureMassProperties, type MassProperties, type StabilityReport } from '@/lib/stability';
+import { analyzeThickness, summarizeThickness, type ThicknessAnalysis } from '@/lib/thickness';
+import type { SliceResult } from '@/lib/slicer';
+import { DEFAULT_OVERHANG_ANGLE, analyzeSupports, scaleSupportAnalysis, type SupportAnalysis } from '@/lib/supports';
+import type {
+  EstimateStage,
+  EstimateWorkerRequest,
+  EstimateWorkerResponse,
+} from '@/lib/estimate-worker-protocol';
+
+interface CachedModel extends PreparedModel {
+  preview: IndexedMesh | null;
+  health: MeshHealthReport | null;
+  thickness: ThicknessAnalysis | null;
+  parts: ModelPart[]; // unscaled part volumes, for splitting estimates per part
+  project: SlicerProject | null;
+  orientations: Map<number, OrientationCandidate[]>; // keyed by overhang angle
+  slices: Map<string, SliceResult>; // keyed by layer height, scale and orientation
+  supports: Map<string, SupportAnalysis>; // of the unscaled mesh, keyed by overhang angle and orientation
+  shells: Map<string, MeshShell[]>; // of the unscaled mesh, keyed by orientation
+  mass: Map<string, MassProperties>; // of the unscaled mesh, keyed by orientation
+}
+
+// Parsed meshes are large; beyond the retained ones keep only the most
+// recently used, and fewer of them when they are huge
+const MAX_CACHED_MODELS = 8;
+const MAX_CACHED_TRIANGLES = 4_000_000;
+// Slice results per model; each scale or layer height change adds one
+const MAX_CACHED_SLICES = 6;
+
+// Streamed files are keyed by this many evenly spaced blocks instead of their whole content
+const HASH_SAMPLE_BLOCKS = 16;
+const HASH_SAMPLE_BYTES = 64 * 1024;
+
+const cache = new Map<string, CachedModel>();
+// Keys of the models the page still needs; a newly loaded model counts until the page says otherwise
+let retainedKeys = new Set<string>();
+// Jobs still running, and those of them a cancel arrived for
+const activeJobs = new Set<number>();
+const cancelledJobs = new Set<number>();
+
+const scope = self as unknown as {
+  postMessage(message: EstimateWorkerResponse, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<EstimateWorkerRequest>) => void) | null;
+};
+
+class JobCancelledError extends Error {}
+
+function reportProgress(id: number, stage: EstimateStage, progress: number | null = null): void {
+  scope.postMessage({ type: 'progress', id, stage, progress });
+}
+
+/**
+ * Yield so queued cancel messages are handled, then stop if this job was cancelled
+ */
+async function checkpoint(id: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  if (cancelledJobs.has(id)) {
+    throw new JobCancelledError();
+  }
+}
+
+async function hashBuffer(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash evenly spaced blocks of a file too large to read whole, together with
+ * its size and modification time, so a changed file never hits the cache
+ */
+async function hashFileSample(file: File): Promise<string> {
+  const blocks: BlobPart[] = [`${file.size}:${file.lastModified}:`];
+  const stride = Math.max(HASH_SAMPLE_BYTES, Math.floor(file.size / HASH_SAMPLE_BLOCKS));
+  for (let offset = 0; offset < file.size; offset += stride) {
+    blocks.push(file.slice(offset, offset + HASH_SAMPLE_BYTES));
+  }
+  blocks.push(file.slice(Math.max(0, file.size - HASH_SAMPLE_BYTES)));
+  return hashBuffer(await new Blob(blocks).arrayBuffer());
+}
+
+function getCachedModel(key: string): CachedModel | undefined {
+  const model = cache.get(key);
+  if (model) {
+    // Move to the back of the map so eviction drops the least recently used model
+    cache.delete(key);
+    cache.set(key, model);
+  }
+  return model;
+}
+
+function countTriangles(model: CachedModel): number {
+  return model.mesh ? model.mesh.triangles.length / 3 : 0;
+}
+
+/**
+ * Drop the least recently used models the page no longer retains until the cache is within its limits
+ */
+function evictModels(): void {
+  let triangles = 0;
+  cache.forEach((cached) => (triangles += countTriangles(cached)));
+  for (const [key, cached] of cache) {
+    if (cache.size <= MAX_CACHED_MODELS && triangles <= MAX_CACHED_TRIANGLES) break;
+    if (retainedKeys.has(key)) continue;
+    triangles -= countTriangles(cached);
+    cache.delete(key);
+  }
+}
+
+function cacheModel(key: string, model: CachedModel): void {
+  cache.set(key, model);
+  evictModels();
+}
+
+async function loadModel(id: number, file: File, overhangAngle = DEFAULT_OVERHANG_ANGLE): Promise<void> {
+  reportProgress(id, 'reading');
+  const extension = getFileExtension(file.name);
+  const streamed = extension === 'stl' && await isStreamableSTL(file);
+  const buffer = streamed ? null : await file.arrayBuffer();
+  const key = `${buffer ? await hashBuffer(buffer) : await hashFileSample(file)}.${extension}`;
+  await checkpoint(id);
+
+  retainedKeys.add(key);
+  let model = getCachedModel(key);
+  if (!model) {
+    reportProgress(id, 'parsing', streamed ? 0 : null);
+    const prepared = await prepareModel(file, (progress) => reportProgress(id, 'parsing', progress), buffer ?? undefined);
+    const project = extension === '3mf' && buffer ? await read3MFProject(buffer) : null;
+    await checkpoint(id);
+
+    reportProgress(id, 'analyzing');
+    const health = prepared.mesh ? analyzeMesh(prepared.mesh) : null;
+    await checkpoint(id);
+
+    let preview: IndexedMesh | null = null;
+    if (prepared.mesh && prepared.mesh.triangles.length / 3 > PREVIEW_TRIANGLE_BUDGET) {
+      reportProgress(id, 'preview');
+      preview = decimateMesh(prepared.mesh, PREVIEW_TRIANGLE_BUDGET);
+      await checkpoint(id);
+    }
+
+    reportProgress(id, 'thickness', 0);
+    const thickness = prepared.mesh && prepared.solid
+      ? analyzeThickness(prepared.mesh, (progress) => reportProgress(id, 'thickness', progress))
+      : null;
+    await checkpoint(id);
+
+    model = {
+      ...prepared,
+      preview,
+      health,
+      thickness,
+      parts: getModelParts(prepared),
+      project,
+      orientations: new Map(),
+      slices: new Map(),
+      supports: new Map(),
+      shells: new Map(),
+      mass: new Map(),
+    };
+    cacheModel(key, model);
+  }
+
+  // Ranked with the same support model the estimates use; meshes beyond the
+  // preview budget are ranked on their preview, which has the same shape
+  let orientations = model.orientations.get(overhangAngle);
+  if (!orientations) {
+    reportProgress(id, 'orienting', 0);
+    const ranked = model.preview ?? model.mesh;
+    orientations = ranked && model.solid
+      ? findOrientations(ranked, overhangAngle, (progress) => reportProgress(id, 'orienting', progress))
+      : [];
+    await checkpoint(id);
+    model.orientations.set(overhangAngle, orientations);
+  }
+
+  scope.postMessage({
+    type: 'loaded',
+    id,
+    model: {
+      key,
+      preview: model.preview ?? model.mesh,
+      triangleCount: model.mesh ? model.mesh.triangles.length / 3 : 0,
+      units: model.mesh?.units ?? 'unknown',
+      dimensions: model.mesh ? getMeshDimensions(model.mesh) : null,
+      volume: model.volume,
+      solid: model.solid,
+      repairs: model.repairs,
+      health: model.health,
+      // Per face of the full mesh, so only of use while the viewer shows it
+      thickness: model.preview ? null : model.thickness,
+      gcode: model.gcode,
+      project: model.project,
+      orientations,
+    },
+  });
+}
+
+async function estimate(id: number, key: string, settings: PrintSettings): Promise<void> {
+  const model = getCachedModel(key);
+  if (!model) {
+    scope.postMessage({ type: 'error', id, message: 'Model is no longer loaded', notLoaded: true });
+    return;
+  }
+
+  if (model.gcode) {
+    reportProgress(id, 'estimating');
+    scope.postMessage({ type: 'estimated', id, estimate: estimateFromGcode(model.gcode, settings) });
+    return;
+  }
+
+  const scale = settings.scale ?? 1;
+  const oriented = orientModel(model, settings.rotation);
+  const orientationKey = settings.rotation ? settings.rotation.map((value) => value.toFixed(4)).join(',') : 'uploaded';
+  const slicesKey = `${settings.layerHeight}@${scale}@${orientationKey}`;
+
+  let slices = model.slices.get(slicesKey);
+  if (!slices) {
+    reportProgress(id, 'slicing', 0);
+    slices = sliceModel(scaleModel(oriented, scale), settings.layerHeight, (progress) => reportProgress(id, 'slicing', progress));
+    model.slices.set(slicesKey, slices);
+    while (model.slices.size > MAX_CACHED_SLICES) {
+      model.slices.delete(model.slices.keys().next().value as string);
+    }
+    await checkpoint(id);
+  }
+
+  // Overhangs don't depend on scale, so one analysis serves every size
+  let supports: SupportAnalysis | null = null;
+  if (oriented.mesh && model.solid && settings.supports !== 'none') {
+    const supportsKey = `${settings.overhangAngle ?? DEFAULT_OVERHANG_ANGLE}@${orientationKey}`;
+    supports = model.supports.get(supportsKey) ?? null;
+    if (!supports) {
+      reportProgress(id, 'supports');
+      supports = analyzeSupports(oriented.mesh, settings.overhangAngle);
+      model.supports.set(supportsKey, supports);
+      await checkpoint(id);
+    }
+    supports = scaleSupportAnalysis(supports, scale);
+  }
+
+  // Shell sizes follow the orientation; volumes and kinds don't
+  let shells = model.shells.get(orientationKey) ?? [];
+  if (oriented.mesh && model.solid && !model.shells.has(orientationKey)) {
+    shells = findShells(oriented.mesh);
+    model.shells.set(orientationKey, shells);
+  }
+
+  // Center of mass and bed contact: measured once per orientation, weighted by the infill
+  let stability: StabilityReport | undefined;
+  if (oriented.mesh && model.solid) {
+    let mass = model.mass.get(orientationKey);
+    if (!mass) {
+      mass = measureMassProperties(oriented.mesh);
+      model.mass.set(orientationKey, mass);
+    }
+    stability = assessStability(mass, settings.infill, scale, settings.printer);
+  }
+
+  reportProgress(id, 'estimating');
+  const plate = oriented.mesh && model.solid
+    ? nestModel(scaleDimensions(getMeshDimensions(oriented.mesh), scale), settings)
+    : null;
+  const thickness = model.mesh && model.thickness
+    ? summarizeThickness(model.mesh, model.thickness, scale, settings.printer)
+    : undefined;
+  const estimate = { ...estimateFromSlices(model.volume * scale ** 3, slices, settings, supports, plate), stability, thickness };
+  const parts = model.parts.map((part) => ({ ...part, volume: part.volume * scale ** 3 }));
+  scope.postMessage({ type: 'estimated', id, estimate: splitEstimateByPart(addShells(estimate, scaleShells(shells, scale)), parts) });
+}
+
+/**
+ * Encode the repaired mesh as binary STL for the download link and the order
+ */
+function exportModel(id: number, key: string): void {
+  const model = getCachedModel(key);
+  if (!model?.mesh) {
+    scope.postMessage({ type: 'error', id, message: 'Model is no longer loaded', notLoaded: !model });
+    return;
+  }
+  const data = meshToBinarySTL(model.mesh);
+  scope.postMessage({ type: 'exported', id, data }, [data]);
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    // Cancels for finished jobs arrive too late to matter
+    if (activeJobs.has(request.id)) {
+      cancelledJobs.add(request.id);
+    }
+    return;
+  }
+
+  if (request.type === 'retain') {
+    retainedKeys = new Set(request.keys);
+    evictModels();
+    return;
+  }
+
+  activeJobs.add(request.id);
+
+  const job = request.type === 'load'
+    ? loadModel(request.id, request.file, request.overhangAngle)
+    : request.type === 'export'
+      ? Promise.resolve().then(() => exportModel(request.id, request.key))
+      : estimate(request.id, request.key, request.settings);
+
+  job
+    .catch((error) => {
+      if (error instanceof JobCancelledError) {
+        scope.postMessage({ type: 'cancelled', id: request.id });
+        return;
+      }
+      console.error('Estimate worker job failed:', error);
+      scope.postMessage({
+        type: 'error',
+        id: request.id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    })
+    .finally(() => {
+      activeJobs.delete(request.id);
+      cancelledJobs.delete(request.id);
+    });
+};
@@ -0,0 +1,71 @@
+/**
+ * Material catalog: every filament we print with, its physical properties,
+ * price and the options it can be ordered with
+ */
+
+export interface MaterialColor {
+  value: string;
+  label: string;
+  swatch: string; // CSS color of the color picker button
+}
+
+export interface Material {
+  value: string; // form and order value, e.g. "pla"
+  label: string;
+  onRequest: boolean; // not kept in stock; ordered in for the job
+  density: number; // g/cm³
+  pricePerKg: number; // CAD charged per kg of filament used, converted to the location's currency
+  minLayerHeight: number; // mm, finest layer the material prints cleanly at
+  speeds: string[]; // turnarounds it can be ordered with ('instant', 'fast', 'regular')
+  colors: MaterialColor[];
+}
+
+const BLACK: MaterialColor = { value: 'black', label: 'Black', swatch: '#1a1a1a' };
+const WHITE: MaterialColor = { value: 'white', label: 'White', swatch: '#e8e8e8' };
+
+export const MATERIALS: Material[] = [
+  {
+    value: 'pla',
+    label: 'PLA',
+    onRequest: false,
+    density: 1.24,
+    pricePerKg: 40,
+    minLayerHeight: 0.12,
+    speeds: ['instant', 'fast', 'regular'],
+    colors: [BLACK, WHITE],
+  },
+  {
+    value: 'petg',
+    label: 'PETG',
+    onRequest: true,
+    density: 1.27,
+    pricePerKg: 45,
+    minLayerHeight: 0.12,
+    speeds: ['fast', 'regular'], // ordered in, so never same day
+    colors: [BLACK, WHITE],
+  },
+  {
+    value: 'tpu',
+    label: 'TPU',
+    onRequest: true,
+    density: 1.2,
+    pricePerKg: 70,
+    minLayerHeight: 0.2, // flexible filament strings and blobs at fine layers
+    speeds: ['fast', 'regular'],
+    colors: [BLACK, WHITE],
+  },
+];
+
+export const DEFAULT_MATERIAL = 'pla';
+
+export function isCatalogMaterial(value: string | null | undefined): boolean {
+  return MATERIALS.some((material) => material.value === value);
+}
+
+/**
+ * Catalog entry of a material, PLA for materials we don't carry
+ */
+export function getMaterial(value: string | null | undefined): Material {
+  return MATERIALS.find((material) => material.value === value)
+    ?? MATERIALS.find((material) => material.value === DEFAULT_MATERIAL)!;
+}
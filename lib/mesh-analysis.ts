@@ -0,0 +1,309 @@
+/**
+ * Mesh health analysis: topology and geometry problems that make the
+ * signed-volume calculation (and the print) unreliable
+ */
+
+import { computeMeshBounds, type IndexedMesh } from '@/lib/mesh';
+
+export interface MeshHealthReport {
+  triangleCount: number;
+  openEdges: number; // edges used by a single triangle (holes in the surface)
+  nonManifoldEdges: number; // edges shared by more than two triangles
+  inconsistentEdges: number; // edges both neighbours traverse in the same direction (flipped normals)
+  degenerateTriangles: number; // zero-area triangles
+  selfIntersections: number | null; // intersecting triangle pairs, null when the mesh was too large to check
+  selfIntersectionsTruncated: boolean; // true when counting stopped at MAX_REPORTED_INTERSECTIONS
+  insideOut: boolean; // every face points inward (negative enclosed volume)
+  watertight: boolean; // closed, manifold and consistently wound
+}
+
+// Self-intersection testing is quadratic in the worst case; skip it on huge meshes
+const MAX_TRIANGLES_FOR_INTERSECTION_CHECK = 500_000;
+const MAX_REPORTED_INTERSECTIONS = 1000;
+
+/**
+ * Analyze the mesh for open edges, non-manifold edges, inconsistent winding,
+ * degenerate triangles and self-intersections
+ */
+export function analyzeMesh(mesh: IndexedMesh): MeshHealthReport {
+  const triangleCount = mesh.triangles.length / 3;
+  const edges = countEdges(mesh);
+  const degenerateTriangles = countDegenerateTriangles(mesh);
+  const intersections = triangleCount <= MAX_TRIANGLES_FOR_INTERSECTION_CHECK
+    ? countSelfIntersections(mesh)
+    : null;
+
+  const watertight = triangleCount > 0 &&
+    edges.openEdges === 0 &&
+    edges.nonManifoldEdges === 0 &&
+    edges.inconsistentEdges === 0;
+
+  return {
+    triangleCount,
+    ...edges,
+    degenerateTriangles,
+    selfIntersections: intersections ? intersections.count : null,
+    selfIntersectionsTruncated: intersections ? intersections.truncated : false,
+    insideOut: watertight && computeSignedVolume(mesh) < 0,
+    watertight,
+  };
+}
+
+/**
+ * Whether the report contains anything the customer or operator should see
+ */
+export function hasMeshIssues(report: MeshHealthReport): boolean {
+  return describeMeshIssues(report).length > 0;
+}
+
+/**
+ * Human-readable findings, shared by the order form and the order email
+ */
+export function describeMeshIssues(report: MeshHealthReport): string[] {
+  const issues: string[] = [];
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+  if (report.openEdges > 0) {
+    issues.push(`${plural(report.openEdges, 'open edge')} — the surface has holes and is not watertight`);
+  }
+  if (report.nonManifoldEdges > 0) {
+    issues.push(`${plural(report.nonManifoldEdges, 'non-manifold edge')} shared by more than two faces`);
+  }
+  if (report.inconsistentEdges > 0) {
+    issues.push(`${plural(report.inconsistentEdges, 'edge')} with inconsistent winding — some normals are flipped`);
+  }
+  if (report.insideOut) {
+    issues.push('All normals point inward — the model is inside out');
+  }
+  if (report.degenerateTriangles > 0) {
+    issues.push(`${plural(report.degenerateTriangles, 'degenerate triangle')} with zero area`);
+  }
+  if (report.selfIntersections) {
+    const count = report.selfIntersectionsTruncated ? `${report.selfIntersections}+` : `${report.selfIntersections}`;
+    issues.push(`${count} self-intersecting face pair${report.selfIntersections === 1 ? '' : 's'}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Classify every edge by how many triangles use it and in which direction
+ * Edges are encoded as sortable numbers so no per-edge objects are allocated
+ */
+function countEdges(mesh: IndexedMesh): Pick<MeshHealthReport, 'openEdges' | 'nonManifoldEdges' | 'inconsistentEdges'> {
+  const { triangles } = mesh;
+  const vertexCount = mesh.vertices.length / 3;
+
+  // key = (low * vertexCount + high) * 2 + direction
+  const keys = new Float64Array(triangles.length);
+  for (let t = 0; t < triangles.length; t += 3) {
+    for (let i = 0; i < 3; i++) {
+      const a = triangles[t + i];
+      const b = triangles[t + (i + 1) % 3];
+      keys[t + i] = a < b
+        ? (a * vertexCount + b) * 2
+        : (b * vertexCount + a) * 2 + 1;
+    }
+  }
+  keys.sort();
+
+  let openEdges = 0;
+  let nonManifoldEdges = 0;
+  let inconsistentEdges = 0;
+
+  let start = 0;
+  while (start < keys.length) {
+    const edge = Math.floor(keys[start] / 2);
+    let end = start;
+    let forward = 0;
+    while (end < keys.length && Math.floor(keys[end] / 2) === edge) {
+      if (keys[end] % 2 === 0) forward++;
+      end++;
+    }
+
+    const uses = end - start;
+    if (uses === 1) {
+      openEdges++;
+    } else if (uses > 2) {
+      nonManifoldEdges++;
+    } else if (forward !== 1) {
+      inconsistentEdges++;
+    }
+    start = end;
+  }
+
+  return { openEdges, nonManifoldEdges, inconsistentEdges };
+}
+
+function countDegenerateTriangles(mesh: IndexedMesh): number {
+  const { vertices, triangles } = mesh;
+  const { min, max } = computeMeshBounds(mesh);
+  const diagonal = Math.hypot(max.x - min.x, max.y - min.y, max.z - min.z);
+  // Twice the area, relative to the model size so units don't matter
+  const minDoubleArea = diagonal * diagonal * 1e-12;
+  let count = 0;
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = triangles[t] * 3, b = triangles[t + 1] * 3, c = triangles[t + 2] * 3;
+    const e1x = vertices[b] - vertices[a], e1y = vertices[b + 1] - vertices[a + 1], e1z = vertices[b + 2] - vertices[a + 2];
+    const e2x = vertices[c] - vertices[a], e2y = vertices[c + 1] - vertices[a + 1], e2z = vertices[c + 2] - vertices[a + 2];
+    const doubleArea = Math.hypot(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x);
+    if (a === b || b === c || a === c || !(doubleArea > minDoubleArea)) {
+      count++;
+    }
+  }
+
+  return count;
+}
+
+function computeSignedVolume(mesh: IndexedMesh): number {
+  const { vertices, triangles } = mesh;
+  const { min } = computeMeshBounds(mesh);
+  let volume = 0;
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = triangles[t] * 3, b = triangles[t + 1] * 3, c = triangles[t + 2] * 3;
+    const ax = vertices[a] - min.x, ay = vertices[a + 1] - min.y, az = vertices[a + 2] - min.z;
+    const bx = vertices[b] - min.x, by = vertices[b + 1] - min.y, bz = vertices[b + 2] - min.z;
+    const cx = vertices[c] - min.x, cy = vertices[c + 1] - min.y, cz = vertices[c + 2] - min.z;
+    volume += ax * (by * cz - bz * cy) + ay * (bz * cx - bx * cz) + az * (bx * cy - by * cx);
+  }
+
+  return volume / 6;
+}
+
+/**
+ * Count pairs of triangles that cross each other, using a uniform grid over
+ * triangle bounding boxes as the broad phase. Triangles sharing a vertex
+ * are neighbours, not intersections, and are skipped.
+ */
+function countSelfIntersections(mesh: IndexedMesh): { count: number; truncated: boolean } {
+  const { vertices, triangles } = mesh;
+  const triangleCount = triangles.length / 3;
+  if (triangleCount < 2) return { count: 0, truncated: false };
+
+  const bounds = computeMeshBounds(mesh);
+  const sizeX = Math.max(bounds.max.x - bounds.min.x, 1e-6);
+  const sizeY = Math.max(bounds.max.y - bounds.min.y, 1e-6);
+  const sizeZ = Math.max(bounds.max.z - bounds.min.z, 1e-6);
+
+  // Aim for a handful of triangles per cell
+  const cellsPerAxis = Math.max(1, Math.min(128, Math.round(Math.cbrt(triangleCount / 4))));
+  const cellX = sizeX / cellsPerAxis, cellY = sizeY / cellsPerAxis, cellZ = sizeZ / cellsPerAxis;
+  const toCell = (value: number, min: number, size: number) =>
+    Math.min(cellsPerAxis - 1, Math.max(0, Math.floor((value - min) / size)));
+
+  const boxes = new Int32Array(triangleCount * 6);
+  const cells = new Map<number, number[]>();
+
+  for (let t = 0; t < triangleCount; t++) {
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    for (let i = 0; i < 3; i++) {
+      const v = triangles[t * 3 + i] * 3;
+      minX = Math.min(minX, vertices[v]); maxX = Math.max(maxX, vertices[v]);
+      minY = Math.min(minY, vertices[v + 1]); maxY = Math.max(maxY, vertices[v + 1]);
+      minZ = Math.min(minZ, vertices[v + 2]); maxZ = Math.max(maxZ, vertices[v + 2]);
+    }
+    const box = [
+      toCell(minX, bounds.min.x, cellX), toCell(minY, bounds.min.y, cellY), toCell(minZ, bounds.min.z, cellZ),
+      toCell(maxX, bounds.min.x, cellX), toCell(maxY, bounds.min.y, cellY), toCell(maxZ, bounds.min.z, cellZ),
+    ];
+    boxes.set(box, t * 6);
+
+    for (let x = box[0]; x <= box[3]; x++) {
+      for (let y = box[1]; y <= box[4]; y++) {
+        for (let z = box[2]; z <= box[5]; z++) {
+          const key = (x * cellsPerAxis + y) * cellsPerAxis + z;
+          const cell = cells.get(key);
+          if (cell) cell.push(t);
+          else cells.set(key, [t]);
+        }
+      }
+    }
+  }
+
+  let count = 0;
+  for (const [key, members] of cells) {
+    const cx = Math.floor(key / (cellsPerAxis * cellsPerAxis));
+    const cy = Math.floor(key / cellsPerAxis) % cellsPerAxis;
+    const cz = key % cellsPerAxis;
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const a = members[i], b = members[j];
+
+        // Test each pair only in the first cell both boxes share
+        if (Math.max(boxes[a * 6], boxes[b * 6]) !== cx ||
+            Math.max(boxes[a * 6 + 1], boxes[b * 6 + 1]) !== cy ||
+            Math.max(boxes[a * 6 + 2], boxes[b * 6 + 2]) !== cz) {
+          continue;
+        }
+        if (sharesVertex(triangles, a, b)) continue;
+
+        if (trianglesIntersect(mesh, a, b)) {
+          count++;
+          if (count >= MAX_REPORTED_INTERSECTIONS) {
+            return { count, truncated: true };
+          }
+        }
+      }
+    }
+  }
+
+  return { count, truncated: false };
+}
+
+function sharesVertex(triangles: Uint32Array, a: number, b: number): boolean {
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      if (triangles[a * 3 + i] === triangles[b * 3 + j]) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Two non-coplanar triangles intersect exactly when an edge of one passes
+ * through the other. Coplanar overlaps are not counted.
+ */
+function trianglesIntersect(mesh: IndexedMesh, a: number, b: number): boolean {
+  for (let i = 0; i < 3; i++) {
+    if (edgeCrossesTriangle(mesh, a, i, b) || edgeCrossesTriangle(mesh, b, i, a)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Möller–Trumbore test of edge `edge` of triangle `source` against triangle `target`
+ */
+function edgeCrossesTriangle(mesh: IndexedMesh, source: number, edge: number, target: number): boolean {
+  const { vertices, triangles } = mesh;
+  const p = triangles[source * 3 + edge] * 3;
+  const q = triangles[source * 3 + (edge + 1) % 3] * 3;
+  const v0 = triangles[target * 3] * 3, v1 = triangles[target * 3 + 1] * 3, v2 = triangles[target * 3 + 2] * 3;
+
+  const dx = vertices[q] - vertices[p], dy = vertices[q + 1] - vertices[p + 1], dz = vertices[q + 2] - vertices[p + 2];
+  const e1x = vertices[v1] - vertices[v0], e1y = vertices[v1 + 1] - vertices[v0 + 1], e1z = vertices[v1 + 2] - vertices[v0 + 2];
+  const e2x = vertices[v2] - vertices[v0], e2y = vertices[v2 + 1] - vertices[v0 + 1], e2z = vertices[v2 + 2] - vertices[v0 + 2];
+
+  const hx = dy * e2z - dz * e2y, hy = dz * e2x - dx * e2z, hz = dx * e2y - dy * e2x;
+  const det = e1x * hx + e1y * hy + e1z * hz;
+  const scale = Math.hypot(dx, dy, dz) * Math.hypot(e1x, e1y, e1z) * Math.hypot(e2x, e2y, e2z);
+  if (Math.abs(det) <= scale * 1e-9) return false; // Parallel or coplanar
+
+  const inv = 1 / det;
+  const sx = vertices[p] - vertices[v0], sy = vertices[p + 1] - vertices[v0 + 1], sz = vertices[p + 2] - vertices[v0 + 2];
+  const u = (sx * hx + sy * hy + sz * hz) * inv;
+  if (u < 0 || u > 1) return false;
+
+  const qx = sy * e1z - sz * e1y, qy = sz * e1x - sx * e1z, qz = sx * e1y - sy * e1x;
+  const v = (dx * qx + dy * qy + dz * qz) * inv;
+  if (v < 0 || u + v > 1) return false;
+
+  // Strictly inside the edge, so faces that merely touch don't count
+  const t = (e2x * qx + e2y * qy + e2z * qz) * inv;
+  return t > 1e-6 && t < 1 - 1e-6;
+}
@@ -0,0 +1,106 @@
+/**
+ * Preview decimation for very large meshes
+ *
+ * Vertex clustering: vertices are snapped to a uniform grid and every cell
+ * collapses to the average of its vertices, dropping the triangles that
+ * collapse with it. It is fast and keeps the silhouette, which is all the
+ * viewer needs; estimates always use the full mesh.
+ */
+
+import { MeshBuilder, computeMeshBounds, type IndexedMesh } from '@/lib/mesh';
+
+// Triangles the viewer renders comfortably on phones; larger meshes get a decimated preview
+export const PREVIEW_TRIANGLE_BUDGET = 400_000;
+
+// Coarsen the grid this much whenever a pass leaves too many triangles
+const CELL_GROWTH = 1.5;
+const MAX_PASSES = 8;
+
+/**
+ * Reduce the mesh to at most `maxTriangles`; meshes within the budget are returned as is
+ * Objects keep their order and names, so part colors still line up.
+ */
+export function decimateMesh(mesh: IndexedMesh, maxTriangles = PREVIEW_TRIANGLE_BUDGET): IndexedMesh {
+  if (mesh.triangles.length / 3 <= maxTriangles) {
+    return mesh;
+  }
+
+  // A surface of area A crosses about A / h² cells of size h, each holding
+  // about two triangles once collapsed
+  let cellSize = Math.sqrt((2 * computeSurfaceArea(mesh)) / maxTriangles);
+  let decimated = clusterVertices(mesh, cellSize);
+  for (let pass = 1; pass < MAX_PASSES && decimated.triangles.length / 3 > maxTriangles; pass++) {
+    cellSize *= CELL_GROWTH;
+    decimated = clusterVertices(mesh, cellSize);
+  }
+
+  return decimated;
+}
+
+function computeSurfaceArea(mesh: IndexedMesh): number {
+  const { vertices, triangles } = mesh;
+  let area = 0;
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = triangles[t] * 3;
+    const b = triangles[t + 1] * 3;
+    const c = triangles[t + 2] * 3;
+    const abX = vertices[b] - vertices[a], abY = vertices[b + 1] - vertices[a + 1], abZ = vertices[b + 2] - vertices[a + 2];
+    const acX = vertices[c] - vertices[a], acY = vertices[c + 1] - vertices[a + 1], acZ = vertices[c + 2] - vertices[a + 2];
+    area += Math.hypot(abY * acZ - abZ * acY, abZ * acX - abX * acZ, abX * acY - abY * acX) / 2;
+  }
+  return area;
+}
+
+/**
+ * Collapse every grid cell of size `cellSize` to one vertex
+ */
+function clusterVertices(mesh: IndexedMesh, cellSize: number): IndexedMesh {
+  const { vertices, triangles } = mesh;
+  const vertexCount = vertices.length / 3;
+  const { min, max } = computeMeshBounds(mesh);
+  const columns = Math.floor((max.x - min.x) / cellSize) + 1;
+  const rows = Math.floor((max.y - min.y) / cellSize) + 1;
+
+  // Cell of every vertex, and the running position sum of every cell
+  const cellOf = new Uint32Array(vertexCount);
+  const cellIndex = new Map<number, number>();
+  const sums: number[] = [];
+  const counts: number[] = [];
+  for (let v = 0; v < vertexCount; v++) {
+    const x = vertices[v * 3], y = vertices[v * 3 + 1], z = vertices[v * 3 + 2];
+    const key = Math.floor((x - min.x) / cellSize)
+      + columns * (Math.floor((y - min.y) / cellSize) + rows * Math.floor((z - min.z) / cellSize));
+    let cell = cellIndex.get(key);
+    if (cell === undefined) {
+      cell = counts.length;
+      cellIndex.set(key, cell);
+      sums.push(0, 0, 0);
+      counts.push(0);
+    }
+    cellOf[v] = cell;
+    sums[cell * 3] += x;
+    sums[cell * 3 + 1] += y;
+    sums[cell * 3 + 2] += z;
+    counts[cell]++;
+  }
+
+  const builder = new MeshBuilder(Math.min(triangles.length / 3, counts.length * 2));
+  for (let cell = 0; cell < counts.length; cell++) {
+    builder.addVertex(sums[cell * 3] / counts[cell], sums[cell * 3 + 1] / counts[cell], sums[cell * 3 + 2] / counts[cell]);
+  }
+
+  for (const object of mesh.objects) {
+    builder.beginObject(object.name);
+    const end = (object.firstTriangle + object.triangleCount) * 3;
+    for (let t = object.firstTriangle * 3; t < end; t += 3) {
+      const a = cellOf[triangles[t]];
+      const b = cellOf[triangles[t + 1]];
+      const c = cellOf[triangles[t + 2]];
+      if (a !== b && b !== c && a !== c) {
+        builder.addTriangle(a, b, c);
+      }
+    }
+  }
+
+  return builder.build(mesh.units);
+}
@@ -0,0 +1,54 @@
+/**
+ * Export an indexed mesh back to a file the customer can download and the
+ * operator receives with the order
+ */
+
+import type { IndexedMesh } from '@/lib/mesh';
+
+/**
+ * Encode the mesh as binary STL (millimeters)
+ */
+export function meshToBinarySTL(mesh: IndexedMesh): ArrayBuffer {
+  const { vertices, triangles } = mesh;
+  const triangleCount = triangles.length / 3;
+  const buffer = new ArrayBuffer(84 + triangleCount * 50);
+  const view = new DataView(buffer);
+
+  const header = 'Binary STL exported by localfab.now';
+  for (let i = 0; i < header.length; i++) {
+    view.setUint8(i, header.charCodeAt(i));
+  }
+  view.setUint32(80, triangleCount, true);
+
+  let offset = 84;
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = triangles[t] * 3, b = triangles[t + 1] * 3, c = triangles[t + 2] * 3;
+    const e1x = vertices[b] - vertices[a], e1y = vertices[b + 1] - vertices[a + 1], e1z = vertices[b + 2] - vertices[a + 2];
+    const e2x = vertices[c] - vertices[a], e2y = vertices[c + 1] - vertices[a + 1], e2z = vertices[c + 2] - vertices[a + 2];
+    const nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x;
+    const length = Math.hypot(nx, ny, nz) || 1;
+
+    view.setFloat32(offset, nx / length, true);
+    view.setFloat32(offset + 4, ny / length, true);
+    view.setFloat32(offset + 8, nz / length, true);
+    offset += 12;
+
+    for (const v of [a, b, c]) {
+      view.setFloat32(offset, vertices[v], true);
+      view.setFloat32(offset + 4, vertices[v + 1], true);
+      view.setFloat32(offset + 8, vertices[v + 2], true);
+      offset += 12;
+    }
+    offset += 2; // Attribute byte count
+  }
+
+  return buffer;
+}
+
+/**
+ * Name for a repaired copy of `fileName`, e.g. "bracket.obj" → "bracket-repaired.stl"
+ */
+export function getRepairedFileName(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return `${dot > 0 ? fileName.slice(0, dot) : fileName}-repaired.stl`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Single entry point for turning an uploaded model file into an IndexedMesh
+ * Both the print estimator and the model viewer read files through here.
+ * G-code uploads are accepted alongside models but have no mesh; they are
+ * read by `parseGcode` instead.
+ */
+
+import type { IndexedMesh } from '@/lib/mesh';
+import { parseSTL } from '@/lib/parsers/stl';
+import { parseOBJ } from '@/lib/parsers/obj';
+import { parse3MF } from '@/lib/parsers/three-mf';
+import { parseCAD } from '@/lib/parsers/step';
+import { parsePLY } from '@/lib/parsers/ply';
+import { parseAMF } from '@/lib/parsers/amf';
+import { parseGLB, parseGLTF } from '@/lib/parsers/gltf';
+
+export const SUPPORTED_MODEL_EXTENSIONS = [
+  'stl', 'obj', '3mf', 'step', 'stp', 'iges', 'igs', 'ply', 'amf', 'gltf', 'glb',
+] as const;
+
+// Already sliced programs, quoted from the slicer's own estimates
+export const GCODE_EXTENSIONS = ['gcode', 'bgcode'] as const;
+
+// B-rep CAD formats; they are tessellated for quoting but sent to the shop unchanged
+const CAD_MODEL_EXTENSIONS = ['step', 'stp', 'iges', 'igs'];
+
+export function getFileExtension(fileName: string): string {
+  return fileName.toLowerCase().split('.').pop() || '';
+}
+
+export function isSupportedModelFile(fileName: string): boolean {
+  return (SUPPORTED_MODEL_EXTENSIONS as readonly string[]).includes(getFileExtension(fileName)) || isGcodeFile(fileName);
+}
+
+export function isGcodeFile(fileName: string): boolean {
+  return (GCODE_EXTENSIONS as readonly string[]).includes(getFileExtension(fileName));
+}
+
+export function isCadModelFile(fileName: string): boolean {
+  return CAD_MODEL_EXTENSIONS.includes(getFileExtension(fileName));
+}
+
+/**
+ * Value for the `accept` attribute of model file inputs
+ */
+export const MODEL_FILE_ACCEPT = [...SUPPORTED_MODEL_EXTENSIONS, ...GCODE_EXTENSIONS].map((extension) => `.${extension}`).join(',');
+
+/**
+ * Parse a 3D model file into an indexed mesh
+ * `data` is the file's content when the caller has already read it.
+ */
+export async function parseMeshFile(file: File, data?: ArrayBuffer): Promise<IndexedMesh> {
+  const extension = getFileExtension(file.name);
+  const bytes = async () => data ?? file.arrayBuffer();
+  const text = async () => (data ? new TextDecoder().decode(data) : file.text());
+
+  switch (extension) {
+    case 'stl':
+      return parseSTL(await bytes());
+    case 'obj':
+      return parseOBJ(await text());
+    case '3mf':
+      return parse3MF(await bytes());
+    case 'step':
+    case 'stp':
+      return parseCAD(await bytes(), 'step');
+    case 'iges':
+    case 'igs':
+      return parseCAD(await bytes(), 'iges');
+    case 'ply':
+      return parsePLY(await bytes());
+    case 'amf':
+      return parseAMF(await bytes());
+    case 'gltf':
+      return parseGLTF(await text());
+    case 'glb':
+      return parseGLB(await bytes());
+    case 'gcode':
+    case 'bgcode':
+      throw new Error('G-code files contain toolpaths, not a mesh');
+    default:
+      throw new Error(`Unsupported file format: ${extension}`);
+  }
+}
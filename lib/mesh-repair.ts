@@ -0,0 +1,367 @@
+/**
+ * Automatic mesh repair before quoting
+ *
+ * Fixes the problems that most often break the volume calculation: vertices
+ * that should be shared but aren't, zero-area faces, inconsistent or inverted
+ * winding and small holes. Larger defects (non-manifold edges, big openings,
+ * self-intersections) are left for the operator.
+ */
+
+import { computeMeshBounds, type IndexedMesh, type MeshObject } from '@/lib/mesh';
+import { computeNestingDepths } from '@/lib/mesh-shells';
+
+export interface MeshRepairSummary {
+  weldedVertices: number; // near-duplicate vertices merged
+  removedTriangles: number; // degenerate faces dropped
+  flippedTriangles: number; // faces turned to match their neighbours or face outward
+  filledHoles: number; // boundary loops closed
+}
+
+export interface MeshRepairResult {
+  mesh: IndexedMesh;
+  summary: MeshRepairSummary;
+}
+
+// Holes with more boundary edges than this are real openings, not defects
+const MAX_HOLE_EDGES = 64;
+
+// Repair copies and sorts every half-edge; larger meshes are quoted as parsed
+export const MAX_TRIANGLES_FOR_REPAIR = 2_000_000;
+
+/**
+ * Total number of fixes applied
+ */
+export function countRepairs(summary: MeshRepairSummary): number {
+  return summary.weldedVertices + summary.removedTriangles + summary.flippedTriangles + summary.filledHoles;
+}
+
+/**
+ * Human-readable list of fixes, shared by the order form and the order email
+ */
+export function describeRepairs(summary: MeshRepairSummary): string[] {
+  const repairs: string[] = [];
+  const plural = (count: number, singular: string, several = `${singular}s`) => `${count} ${count === 1 ? singular : several}`;
+
+  if (summary.weldedVertices > 0) repairs.push(`Welded ${plural(summary.weldedVertices, 'duplicate vertex', 'duplicate vertices')}`);
+  if (summary.removedTriangles > 0) repairs.push(`Removed ${plural(summary.removedTriangles, 'degenerate face')}`);
+  if (summary.flippedTriangles > 0) repairs.push(`Flipped ${plural(summary.flippedTriangles, 'face')} to fix normals`);
+  if (summary.filledHoles > 0) repairs.push(`Filled ${plural(summary.filledHoles, 'hole')}`);
+
+  return repairs;
+}
+
+/**
+ * Repair the mesh; the input is left untouched
+ */
+export function repairMesh(mesh: IndexedMesh): MeshRepairResult {
+  const bounds = computeMeshBounds(mesh);
+  const diagonal = Math.hypot(bounds.max.x - bounds.min.x, bounds.max.y - bounds.min.y, bounds.max.z - bounds.min.z);
+
+  const welded = weldVertices(mesh.vertices, diagonal * 1e-6);
+  const triangleObject = objectIndexPerTriangle(mesh);
+
+  // Remap through the weld and drop faces that collapsed or have no area
+  const minDoubleArea = diagonal * diagonal * 1e-12;
+  const triangles: number[] = [];
+  const objectOf: number[] = [];
+  for (let t = 0; t < mesh.triangles.length / 3; t++) {
+    const a = welded.remap[mesh.triangles[t * 3]];
+    const b = welded.remap[mesh.triangles[t * 3 + 1]];
+    const c = welded.remap[mesh.triangles[t * 3 + 2]];
+    if (a === b || b === c || a === c || !(doubleArea(welded.vertices, a, b, c) > minDoubleArea)) {
+      continue;
+    }
+    triangles.push(a, b, c);
+    objectOf.push(triangleObject[t]);
+  }
+  const removedTriangles = mesh.triangles.length / 3 - objectOf.length;
+
+  const vertices = Array.from(welded.vertices);
+  const orientation = unifyWinding(triangles, vertices.length / 3);
+  const originalCount = objectOf.length; // faces of the file; hole fills are appended after these
+  const filledHoles = fillHoles(triangles, vertices, objectOf, orientation.component, vertices.length / 3);
+  const outward = orientOutward(triangles, vertices, orientation.component);
+
+  // Hole fills are counted under filledHoles, not as flipped faces
+  let flippedTriangles = 0;
+  for (let t = 0; t < originalCount; t++) {
+    if (Boolean(orientation.flipped[t]) !== outward[orientation.component[t]]) flippedTriangles++;
+  }
+
+  return {
+    mesh: buildRepairedMesh(mesh, vertices, triangles, objectOf),
+    summary: {
+      weldedVertices: welded.merged,
+      removedTriangles,
+      flippedTriangles,
+      filledHoles,
+    },
+  };
+}
+
+/**
+ * Merge vertices closer than `tolerance` using a spatial hash
+ */
+function weldVertices(source: Float32Array, tolerance: number): { vertices: Float32Array; remap: Uint32Array; merged: number } {
+  const count = source.length / 3;
+  const remap = new Uint32Array(count);
+  const kept: number[] = [];
+  const cells = new Map<number, number[]>();
+  const cellSize = Math.max(tolerance, 1e-9);
+  const toleranceSquared = tolerance * tolerance;
+
+  const cellHash = (x: number, y: number, z: number) =>
+    (Math.imul(x, 73856093) ^ Math.imul(y, 19349663) ^ Math.imul(z, 83492791)) | 0;
+
+  for (let i = 0; i < count; i++) {
+    const x = source[i * 3], y = source[i * 3 + 1], z = source[i * 3 + 2];
+    const cx = Math.floor(x / cellSize), cy = Math.floor(y / cellSize), cz = Math.floor(z / cellSize);
+
+    let match = -1;
+    search: for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const candidate of cells.get(cellHash(cx + dx, cy + dy, cz + dz)) ?? []) {
+            const ox = source[kept[candidate] * 3] - x;
+            const oy = source[kept[candidate] * 3 + 1] - y;
+            const oz = source[kept[candidate] * 3 + 2] - z;
+            if (ox * ox + oy * oy + oz * oz <= toleranceSquared) {
+              match = candidate;
+              break search;
+            }
+          }
+        }
+      }
+    }
+
+    if (match === -1) {
+      match = kept.length;
+      kept.push(i);
+      const key = cellHash(cx, cy, cz);
+      const cell = cells.get(key);
+      if (cell) cell.push(match);
+      else cells.set(key, [match]);
+    }
+    remap[i] = match;
+  }
+
+  const vertices = new Float32Array(kept.length * 3);
+  kept.forEach((index, i) => vertices.set(source.subarray(index * 3, index * 3 + 3), i * 3));
+  return { vertices, remap, merged: count - kept.length };
+}
+
+function objectIndexPerTriangle(mesh: IndexedMesh): Uint32Array {
+  const objectOf = new Uint32Array(mesh.triangles.length / 3);
+  mesh.objects.forEach((object, index) => {
+    objectOf.fill(index, object.firstTriangle, object.firstTriangle + object.triangleCount);
+  });
+  return objectOf;
+}
+
+function doubleArea(vertices: ArrayLike<number>, a: number, b: number, c: number): number {
+  const e1x = vertices[b * 3] - vertices[a * 3], e1y = vertices[b * 3 + 1] - vertices[a * 3 + 1], e1z = vertices[b * 3 + 2] - vertices[a * 3 + 2];
+  const e2x = vertices[c * 3] - vertices[a * 3], e2y = vertices[c * 3 + 1] - vertices[a * 3 + 1], e2z = vertices[c * 3 + 2] - vertices[a * 3 + 2];
+  return Math.hypot(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x);
+}
+
+function flipTriangle(triangles: number[], t: number): void {
+  const b = triangles[t * 3 + 1];
+  triangles[t * 3 + 1] = triangles[t * 3 + 2];
+  triangles[t * 3 + 2] = b;
+}
+
+// `matchHalfEdges` markers for edges without a single partner face
+const BOUNDARY_EDGE = -1;
+const NON_MANIFOLD_EDGE = -2;
+
+/**
+ * For every half-edge (triangle t, corner i → i + 1), the index of the
+ * half-edge on the neighbouring face, BOUNDARY_EDGE or NON_MANIFOLD_EDGE
+ */
+function matchHalfEdges(triangles: number[], vertexCount: number): Int32Array {
+  const halfEdges = triangles.length;
+  const keys = new Float64Array(halfEdges);
+  for (let h = 0; h < halfEdges; h++) {
+    const a = triangles[h];
+    const b = triangles[nextCorner(h)];
+    keys[h] = Math.min(a, b) * vertexCount + Math.max(a, b);
+  }
+
+  const order = new Uint32Array(halfEdges).map((_, h) => h).sort((x, y) => keys[x] - keys[y]);
+  const twin = new Int32Array(halfEdges);
+  for (let i = 0; i < halfEdges;) {
+    let j = i + 1;
+    while (j < halfEdges && keys[order[j]] === keys[order[i]]) j++;
+    if (j - i === 2) {
+      twin[order[i]] = order[i + 1];
+      twin[order[i + 1]] = order[i];
+    } else {
+      for (let k = i; k < j; k++) {
+        twin[order[k]] = j - i === 1 ? BOUNDARY_EDGE : NON_MANIFOLD_EDGE;
+      }
+    }
+    i = j;
+  }
+  return twin;
+}
+
+function nextCorner(h: number): number {
+  return h % 3 === 2 ? h - 2 : h + 1;
+}
+
+/**
+ * Walk each connected patch across its manifold edges and flip faces that
+ * traverse a shared edge in the same direction as their neighbour
+ * Returns which faces were flipped and the patch each face belongs to.
+ */
+function unifyWinding(triangles: number[], vertexCount: number): { flipped: Uint8Array; component: number[] } {
+  const triangleCount = triangles.length / 3;
+  const twin = matchHalfEdges(triangles, vertexCount);
+
+  const flipped = new Uint8Array(triangleCount);
+  const component = new Array<number>(triangleCount).fill(-1);
+  let components = 0;
+
+  for (let seed = 0; seed < triangleCount; seed++) {
+    if (component[seed] !== -1) continue;
+    component[seed] = components;
+    const stack = [seed];
+
+    while (stack.length > 0) {
+      const t = stack.pop()!;
+      for (let i = 0; i < 3; i++) {
+        const other = twin[t * 3 + i];
+        if (other < 0) continue;
+        const u = Math.floor(other / 3);
+        if (component[u] !== -1) continue;
+
+        // Both faces start the shared edge at the same vertex: same direction
+        const sameDirection = triangles[t * 3 + i] === triangles[other];
+        flipped[u] = flipped[t] ^ (sameDirection ? 1 : 0);
+        component[u] = components;
+        stack.push(u);
+      }
+    }
+    components++;
+  }
+
+  for (let t = 0; t < triangleCount; t++) {
+    if (flipped[t]) flipTriangle(triangles, t);
+  }
+
+  return { flipped, component };
+}
+
+/**
+ * Close boundary loops of up to MAX_HOLE_EDGES edges with a fan around their
+ * centroid. New faces are appended to `triangles` with the winding of the
+ * surrounding surface.
+ */
+function fillHoles(triangles: number[], vertices: number[], objectOf: number[], component: number[], vertexCount: number): number {
+  const twin = matchHalfEdges(triangles, vertexCount);
+
+  // A hole runs against the surface: boundary edge a→b becomes hole edge b→a
+  const holeNext = new Map<number, number>();
+  const holeTriangle = new Map<number, number>();
+  const ambiguous = new Set<number>();
+  for (let h = 0; h < triangles.length; h++) {
+    if (twin[h] !== BOUNDARY_EDGE) continue;
+    const a = triangles[h];
+    const b = triangles[nextCorner(h)];
+    if (holeNext.has(b)) ambiguous.add(b);
+    holeNext.set(b, a);
+    holeTriangle.set(b, Math.floor(h / 3));
+  }
+
+  const visited = new Set<number>();
+  let filled = 0;
+
+  for (const start of holeNext.keys()) {
+    if (visited.has(start)) continue;
+
+    const loop: number[] = [];
+    let current: number | undefined = start;
+    let valid = true;
+    while (current !== undefined && !visited.has(current)) {
+      visited.add(current);
+      if (ambiguous.has(current)) valid = false;
+      loop.push(current);
+      current = holeNext.get(current);
+    }
+    if (!valid || current !== start || loop.length < 3 || loop.length > MAX_HOLE_EDGES) continue;
+
+    const owner = holeTriangle.get(start)!;
+    const addFace = (a: number, b: number, c: number) => {
+      triangles.push(a, b, c);
+      objectOf.push(objectOf[owner]);
+      component.push(component[owner]);
+    };
+
+    if (loop.length === 3) {
+      addFace(loop[0], loop[1], loop[2]);
+    } else {
+      let cx = 0, cy = 0, cz = 0;
+      for (const v of loop) {
+        cx += vertices[v * 3];
+        cy += vertices[v * 3 + 1];
+        cz += vertices[v * 3 + 2];
+      }
+      const center = vertices.length / 3;
+      vertices.push(cx / loop.length, cy / loop.length, cz / loop.length);
+      loop.forEach((v, i) => addFace(v, loop[(i + 1) % loop.length], center));
+    }
+    filled++;
+  }
+
+  return filled;
+}
+
+/**
+ * Flip patches so normals point out of the material: outward on bodies,
+ * into the hollow on cavities nested inside another patch
+ * Returns, per patch, whether it was flipped.
+ */
+function orientOutward(triangles: number[], vertices: number[], component: number[]): boolean[] {
+  const volumes: number[] = [];
+  for (let t = 0; t < component.length; t++) {
+    const a = triangles[t * 3] * 3, b = triangles[t * 3 + 1] * 3, c = triangles[t * 3 + 2] * 3;
+    const signed = vertices[a] * (vertices[b + 1] * vertices[c + 2] - vertices[b + 2] * vertices[c + 1]) +
+      vertices[a + 1] * (vertices[b + 2] * vertices[c] - vertices[b] * vertices[c + 2]) +
+      vertices[a + 2] * (vertices[b] * vertices[c + 1] - vertices[b + 1] * vertices[c]);
+    volumes[component[t]] = (volumes[component[t]] ?? 0) + signed;
+  }
+
+  const depths = computeNestingDepths(vertices, triangles, component, volumes.length);
+  const outward = volumes.map((volume, patch) => (depths[patch] % 2 === 1 ? volume > 0 : volume < 0));
+  for (let t = 0; t < component.length; t++) {
+    if (outward[component[t]]) flipTriangle(triangles, t);
+  }
+  return outward;
+}
+
+/**
+ * Assemble the repaired mesh, keeping each object's faces together
+ */
+function buildRepairedMesh(source: IndexedMesh, vertices: number[], triangles: number[], objectOf: number[]): IndexedMesh {
+  const byObject = source.objects.map(() => [] as number[]);
+  objectOf.forEach((object, t) => byObject[object].push(t));
+
+  const output = new Uint32Array(triangles.length);
+  const objects: MeshObject[] = [];
+  let next = 0;
+  byObject.forEach((faces, index) => {
+    if (faces.length === 0) return;
+    objects.push({ name: source.objects[index].name, firstTriangle: next, triangleCount: faces.length });
+    for (const t of faces) {
+      output.set(triangles.slice(t * 3, t * 3 + 3), next * 3);
+      next++;
+    }
+  });
+
+  return {
+    vertices: new Float32Array(vertices),
+    triangles: output,
+    objects,
+    units: source.units,
+  };
+}
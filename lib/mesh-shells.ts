@@ -0,0 +1,210 @@
+/**
+ * Shell detection: splits a mesh into its connected surfaces and tells
+ * separate bodies (print-in-place assemblies, multi-body STLs) from internal
+ * cavities, which are shells nested inside another shell
+ */
+
+import type { ModelDimensions } from '@/lib/build-volume';
+import type { IndexedMesh } from '@/lib/mesh';
+
+export type ShellKind = 'body' | 'cavity';
+
+export interface MeshShell {
+  kind: ShellKind;
+  triangleCount: number;
+  volume: number; // cm³ enclosed by the shell; a cavity's volume is missing from the body around it
+  dimensions: ModelDimensions; // mm, bounding box
+}
+
+// Containment is tested pair by pair; meshes with more shells are all treated as bodies
+const MAX_SHELLS_FOR_NESTING = 256;
+
+// Slightly skewed ray direction, so parity rays don't run along axis-aligned edges
+const RAY_DIRECTION = normalize([1, 0.0013, 0.0007]);
+
+/**
+ * Split the mesh into shells of triangles connected through shared vertices
+ */
+export function findShells(mesh: IndexedMesh): MeshShell[] {
+  const { vertices, triangles } = mesh;
+  const { shellOf, shellCount } = labelShells(triangles, vertices.length / 3);
+  if (shellCount === 0) {
+    return [];
+  }
+  const depths = computeNestingDepths(vertices, triangles, shellOf, shellCount);
+
+  const triangleCounts = new Array<number>(shellCount).fill(0);
+  const volumes = new Array<number>(shellCount).fill(0);
+  const references: number[] = new Array<number>(shellCount).fill(-1); // first vertex of each shell
+  const min = Array.from({ length: shellCount }, () => [Infinity, Infinity, Infinity]);
+  const max = Array.from({ length: shellCount }, () => [-Infinity, -Infinity, -Infinity]);
+
+  for (let t = 0; t < shellOf.length; t++) {
+    const shell = shellOf[t];
+    triangleCounts[shell]++;
+    if (references[shell] === -1) references[shell] = triangles[t * 3];
+    const r = references[shell] * 3;
+    const [a, b, c] = [triangles[t * 3] * 3, triangles[t * 3 + 1] * 3, triangles[t * 3 + 2] * 3];
+    for (const v of [a, b, c]) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[shell][axis] = Math.min(min[shell][axis], vertices[v + axis]);
+        max[shell][axis] = Math.max(max[shell][axis], vertices[v + axis]);
+      }
+    }
+    // Signed tetrahedron from the shell's first vertex, which keeps far-off shells precise
+    const [ax, ay, az] = [vertices[a] - vertices[r], vertices[a + 1] - vertices[r + 1], vertices[a + 2] - vertices[r + 2]];
+    const [bx, by, bz] = [vertices[b] - vertices[r], vertices[b + 1] - vertices[r + 1], vertices[b + 2] - vertices[r + 2]];
+    const [cx, cy, cz] = [vertices[c] - vertices[r], vertices[c + 1] - vertices[r + 1], vertices[c + 2] - vertices[r + 2]];
+    volumes[shell] += (ax * (by * cz - bz * cy) + ay * (bz * cx - bx * cz) + az * (bx * cy - by * cx)) / 6;
+  }
+
+  return triangleCounts.map((triangleCount, shell) => ({
+    kind: depths[shell] % 2 === 1 ? 'cavity' : 'body',
+    triangleCount,
+    volume: Math.abs(volumes[shell]) / 1000,
+    dimensions: {
+      x: max[shell][0] - min[shell][0],
+      y: max[shell][1] - min[shell][1],
+      z: max[shell][2] - min[shell][2],
+    },
+  }));
+}
+
+/**
+ * Shells at a uniform scale (unit conversion and scale percentage)
+ */
+export function scaleShells(shells: MeshShell[], scale: number): MeshShell[] {
+  if (scale === 1) {
+    return shells;
+  }
+  return shells.map((shell) => ({
+    ...shell,
+    volume: shell.volume * scale ** 3,
+    dimensions: { x: shell.dimensions.x * scale, y: shell.dimensions.y * scale, z: shell.dimensions.z * scale },
+  }));
+}
+
+/**
+ * Count of bodies and cavities, e.g. "3 bodies, 1 internal cavity"
+ */
+export function describeShells(shells: MeshShell[]): string {
+  const bodies = shells.filter((shell) => shell.kind === 'body').length;
+  const cavities = shells.length - bodies;
+  const description = `${bodies} ${bodies === 1 ? 'body' : 'bodies'}`;
+  if (cavities === 0) {
+    return description;
+  }
+  return `${description}, ${cavities} internal ${cavities === 1 ? 'cavity' : 'cavities'}`;
+}
+
+/**
+ * Number of other shells enclosing each shell; odd depths are cavities,
+ * even depths bodies (including islands inside a cavity)
+ * `shellOf` gives the shell of every triangle. Shared with mesh repair,
+ * which orients cavities inward.
+ */
+export function computeNestingDepths(
+  vertices: ArrayLike<number>,
+  triangles: ArrayLike<number>,
+  shellOf: ArrayLike<number>,
+  shellCount: number
+): number[] {
+  const depths = new Array<number>(shellCount).fill(0);
+  if (shellCount < 2 || shellCount > MAX_SHELLS_FOR_NESTING) {
+    return depths;
+  }
+
+  // Triangles grouped by shell, a probe vertex and the bounds of every shell
+  const byShell = Array.from({ length: shellCount }, () => [] as number[]);
+  const probe = new Array<number>(shellCount).fill(-1);
+  const min = Array.from({ length: shellCount }, () => [Infinity, Infinity, Infinity]);
+  const max = Array.from({ length: shellCount }, () => [-Infinity, -Infinity, -Infinity]);
+  for (let t = 0; t < shellOf.length; t++) {
+    const shell = shellOf[t];
+    byShell[shell].push(t);
+    if (probe[shell] === -1) probe[shell] = triangles[t * 3];
+    for (let corner = 0; corner < 3; corner++) {
+      const v = triangles[t * 3 + corner] * 3;
+      for (let axis = 0; axis < 3; axis++) {
+        min[shell][axis] = Math.min(min[shell][axis], vertices[v + axis]);
+        max[shell][axis] = Math.max(max[shell][axis], vertices[v + axis]);
+      }
+    }
+  }
+
+  for (let inner = 0; inner < shellCount; inner++) {
+    if (probe[inner] === -1) continue;
+    const origin = [vertices[probe[inner] * 3], vertices[probe[inner] * 3 + 1], vertices[probe[inner] * 3 + 2]];
+    for (let outer = 0; outer < shellCount; outer++) {
+      // Only a shell whose bounds hold the whole inner shell can enclose it
+      if (outer === inner || ![0, 1, 2].every((axis) => min[outer][axis] <= min[inner][axis] && max[inner][axis] <= max[outer][axis])) {
+        continue;
+      }
+      let crossings = 0;
+      for (const t of byShell[outer]) {
+        if (rayHitsTriangle(origin, vertices, triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2])) crossings++;
+      }
+      if (crossings % 2 === 1) depths[inner]++;
+    }
+  }
+
+  return depths;
+}
+
+/**
+ * Label every triangle with its shell, joining triangles that share a vertex
+ */
+function labelShells(triangles: Uint32Array, vertexCount: number): { shellOf: Int32Array; shellCount: number } {
+  const parent = new Int32Array(vertexCount);
+  for (let v = 0; v < vertexCount; v++) parent[v] = v;
+  const find = (v: number): number => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]];
+      v = parent[v];
+    }
+    return v;
+  };
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = find(triangles[t]);
+    parent[find(triangles[t + 1])] = a;
+    parent[find(triangles[t + 2])] = a;
+  }
+
+  const shellOfRoot = new Map<number, number>();
+  const shellOf = new Int32Array(triangles.length / 3);
+  for (let t = 0; t < shellOf.length; t++) {
+    const root = find(triangles[t * 3]);
+    let shell = shellOfRoot.get(root);
+    if (shell === undefined) {
+      shell = shellOfRoot.size;
+      shellOfRoot.set(root, shell);
+    }
+    shellOf[t] = shell;
+  }
+  return { shellOf, shellCount: shellOfRoot.size };
+}
+
+/**
+ * Möller–Trumbore test of the ray from `origin` along RAY_DIRECTION against one triangle
+ */
+function rayHitsTriangle(origin: number[], vertices: ArrayLike<number>, a: number, b: number, c: number): boolean {
+  const [dx, dy, dz] = RAY_DIRECTION;
+  const e1x = vertices[b * 3] - vertices[a * 3], e1y = vertices[b * 3 + 1] - vertices[a * 3 + 1], e1z = vertices[b * 3 + 2] - vertices[a * 3 + 2];
+  const e2x = vertices[c * 3] - vertices[a * 3], e2y = vertices[c * 3 + 1] - vertices[a * 3 + 1], e2z = vertices[c * 3 + 2] - vertices[a * 3 + 2];
+  const px = dy * e2z - dz * e2y, py = dz * e2x - dx * e2z, pz = dx * e2y - dy * e2x;
+  const det = e1x * px + e1y * py + e1z * pz;
+  if (Math.abs(det) < 1e-12) return false;
+
+  const sx = origin[0] - vertices[a * 3], sy = origin[1] - vertices[a * 3 + 1], sz = origin[2] - vertices[a * 3 + 2];
+  const u = (sx * px + sy * py + sz * pz) / det;
+  if (u < 0 || u > 1) return false;
+  const qx = sy * e1z - sz * e1y, qy = sz * e1x - sx * e1z, qz = sx * e1y - sy * e1x;
+  const v = (dx * qx + dy * qy + dz * qz) / det;
+  if (v < 0 || u + v > 1) return false;
+  return (e2x * qx + e2y * qy + e2z * qz) / det > 0;
+}
+
+function normalize([x, y, z]: number[]): number[] {
+  const length = Math.hypot(x, y, z);
+  return [x / length, y / length, z / length];
+}
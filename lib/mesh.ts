@@ -0,0 +1,293 @@
+/**
+ * Indexed triangle mesh shared by the print estimator and the model viewer
+ */
+
+export type MeshUnit = 'micron' | 'millimeter' | 'centimeter' | 'meter' | 'inch' | 'foot' | 'unknown';
+
+export interface MeshObject {
+  name: string;
+  firstTriangle: number; // index of the object's first triangle in `triangles`
+  triangleCount: number;
+}
+
+export interface IndexedMesh {
+  vertices: Float32Array; // x, y, z triples in millimeters
+  triangles: Uint32Array; // vertex index triples
+  objects: MeshObject[];
+  units: MeshUnit; // unit declared by the source file ('unknown' for unitless formats)
+}
+
+export interface MeshBounds {
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}
+
+// Unit conversion factors to millimeters
+export const UNIT_TO_MM: Record<Exclude<MeshUnit, 'unknown'>, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  meter: 1000,
+  inch: 25.4,
+  foot: 304.8,
+};
+
+/**
+ * Incrementally builds an IndexedMesh, welding vertices that share the exact
+ * same coordinates so that unindexed formats (STL) end up with shared edges
+ */
+export class MeshBuilder {
+  private positions: Float32Array;
+  private indices: Uint32Array;
+  private vertexCount = 0;
+  private indexCount = 0;
+  private objects: MeshObject[] = [];
+  private hashTable: Int32Array;
+  private hashNext: Int32Array;
+  private readonly bits = new Uint32Array(3);
+  private readonly floats = new Float32Array(this.bits.buffer);
+
+  constructor(expectedTriangles = 1024) {
+    const triangles = Math.max(16, expectedTriangles);
+    this.positions = new Float32Array(triangles * 3);
+    this.indices = new Uint32Array(triangles * 3);
+    this.hashTable = new Int32Array(nextPowerOfTwo(triangles * 2)).fill(-1);
+    this.hashNext = new Int32Array(triangles);
+  }
+
+  get triangleCount(): number {
+    return this.indexCount / 3;
+  }
+
+  /**
+   * Start a new named object; following triangles belong to it
+   */
+  beginObject(name: string): void {
+    this.closeObject();
+    this.objects.push({ name, firstTriangle: this.triangleCount, triangleCount: 0 });
+  }
+
+  /**
+   * Add a vertex without welding and return its index
+   */
+  addVertex(x: number, y: number, z: number): number {
+    if (this.vertexCount * 3 + 3 > this.positions.length) {
+      this.positions = grow(this.positions, this.positions.length * 2);
+    }
+    const index = this.vertexCount++;
+    this.positions[index * 3] = x;
+    this.positions[index * 3 + 1] = y;
+    this.positions[index * 3 + 2] = z;
+    return index;
+  }
+
+  /**
+   * Return the index of an existing vertex with identical coordinates, or add one
+   */
+  weldVertex(x: number, y: number, z: number): number {
+    const { floats, bits } = this;
+    floats[0] = x;
+    floats[1] = y;
+    floats[2] = z;
+    // Treat -0 and +0 as the same coordinate
+    for (let i = 0; i < 3; i++) {
+      if (bits[i] === 0x80000000) bits[i] = 0;
+    }
+
+    const mask = this.hashTable.length - 1;
+    const slot = (Math.imul(bits[0], 73856093) ^ Math.imul(bits[1], 19349663) ^ Math.imul(bits[2], 83492791)) & mask;
+
+    for (let candidate = this.hashTable[slot]; candidate !== -1; candidate = this.hashNext[candidate]) {
+      if (this.positions[candidate * 3] === floats[0] &&
+          this.positions[candidate * 3 + 1] === floats[1] &&
+          this.positions[candidate * 3 + 2] === floats[2]) {
+        return candidate;
+      }
+    }
+
+    const index = this.addVertex(floats[0], floats[1], floats[2]);
+    if (index >= this.hashNext.length) {
+      this.hashNext = grow(this.hashNext, this.hashNext.length * 2);
+    }
+    this.hashNext[index] = this.hashTable[slot];
+    this.hashTable[slot] = index;
+
+    // Keep the load factor below 0.5
+    if (this.vertexCount * 2 > this.hashTable.length) {
+      this.rehash();
+    }
+    return index;
+  }
+
+  addTriangle(a: number, b: number, c: number): void {
+    if (this.objects.length === 0) {
+      this.objects.push({ name: 'Object 1', firstTriangle: 0, triangleCount: 0 });
+    }
+    if (this.indexCount + 3 > this.indices.length) {
+      this.indices = grow(this.indices, this.indices.length * 2);
+    }
+    this.indices[this.indexCount++] = a;
+    this.indices[this.indexCount++] = b;
+    this.indices[this.indexCount++] = c;
+  }
+
+  build(units: MeshUnit): IndexedMesh {
+    this.closeObject();
+    return {
+      vertices: this.positions.slice(0, this.vertexCount * 3),
+      triangles: this.indices.slice(0, this.indexCount),
+      objects: this.objects.filter((object) => object.triangleCount > 0),
+      units,
+    };
+  }
+
+  private closeObject(): void {
+    const current = this.objects[this.objects.length - 1];
+    if (current) {
+      current.triangleCount = this.triangleCount - current.firstTriangle;
+    }
+  }
+
+  private rehash(): void {
+    const table = new Int32Array(this.hashTable.length * 2).fill(-1);
+    const mask = table.length - 1;
+    const { floats, bits } = this;
+    for (let index = 0; index < this.vertexCount; index++) {
+      floats[0] = this.positions[index * 3];
+      floats[1] = this.positions[index * 3 + 1];
+      floats[2] = this.positions[index * 3 + 2];
+      for (let i = 0; i < 3; i++) {
+        if (bits[i] === 0x80000000) bits[i] = 0;
+      }
+      const slot = (Math.imul(bits[0], 73856093) ^ Math.imul(bits[1], 19349663) ^ Math.imul(bits[2], 83492791)) & mask;
+      this.hashNext[index] = table[slot];
+      table[slot] = index;
+    }
+    this.hashTable = table;
+  }
+}
+
+function nextPowerOfTwo(value: number): number {
+  let result = 1;
+  while (result < value) result *= 2;
+  return result;
+}
+
+function grow<T extends Float32Array | Uint32Array | Int32Array>(array: T, length: number): T {
+  const next = new (array.constructor as { new (length: number): T })(length);
+  next.set(array);
+  return next;
+}
+
+/**
+ * Calculate volume of tetrahedron formed by triangle and origin
+ * Uses the signed volume method
+ * Note: If model is centered at origin, use a reference point offset
+ */
+export function calculateTetrahedronVolume(
+  v1: { x: number; y: number; z: number },
+  v2: { x: number; y: number; z: number },
+  v3: { x: number; y: number; z: number },
+  referencePoint?: { x: number; y: number; z: number }
+): number {
+  // Use reference point if provided (to avoid cancellation when model is centered at origin)
+  const ref = referencePoint || { x: 0, y: 0, z: 0 };
+
+  // Translate vertices relative to reference point
+  const p1 = { x: v1.x - ref.x, y: v1.y - ref.y, z: v1.z - ref.z };
+  const p2 = { x: v2.x - ref.x, y: v2.y - ref.y, z: v2.z - ref.z };
+  const p3 = { x: v3.x - ref.x, y: v3.y - ref.y, z: v3.z - ref.z };
+
+  // Signed volume = (1/6) * dot(p1, cross(p2, p3))
+  const crossX = p2.y * p3.z - p2.z * p3.y;
+  const crossY = p2.z * p3.x - p2.x * p3.z;
+  const crossZ = p2.x * p3.y - p2.y * p3.x;
+
+  const dot = p1.x * crossX + p1.y * crossY + p1.z * crossZ;
+  return dot / 6.0;
+}
+
+/**
+ * Read vertex `index` of the mesh as a point
+ */
+export function getVertex(mesh: IndexedMesh, index: number): { x: number; y: number; z: number } {
+  return {
+    x: mesh.vertices[index * 3],
+    y: mesh.vertices[index * 3 + 1],
+    z: mesh.vertices[index * 3 + 2],
+  };
+}
+
+/**
+ * Uniformly scale the mesh about the origin; returns the mesh itself for a factor of 1
+ */
+export function scaleMesh(mesh: IndexedMesh, factor: number): IndexedMesh {
+  if (factor === 1) {
+    return mesh;
+  }
+  const vertices = new Float32Array(mesh.vertices.length);
+  for (let i = 0; i < vertices.length; i++) {
+    vertices[i] = mesh.vertices[i] * factor;
+  }
+  return { ...mesh, vertices };
+}
+
+/**
+ * Axis-aligned bounding box of the mesh in millimeters
+ */
+export function computeMeshBounds(mesh: IndexedMesh): MeshBounds {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  const { vertices } = mesh;
+
+  for (let i = 0; i < vertices.length; i += 3) {
+    min.x = Math.min(min.x, vertices[i]);
+    min.y = Math.min(min.y, vertices[i + 1]);
+    min.z = Math.min(min.z, vertices[i + 2]);
+    max.x = Math.max(max.x, vertices[i]);
+    max.y = Math.max(max.y, vertices[i + 1]);
+    max.z = Math.max(max.z, vertices[i + 2]);
+  }
+
+  return { min, max };
+}
+
+/**
+ * Calculate the enclosed volume of the mesh, or of one of its objects, in cm³
+ * using signed tetrahedra measured from the vertex centroid
+ */
+export function computeMeshVolume(mesh: IndexedMesh, object?: MeshObject): number {
+  const { vertices, triangles } = mesh;
+  const vertexCount = vertices.length / 3;
+  if (vertexCount === 0 || triangles.length === 0) {
+    return 0;
+  }
+
+  // Calculate centroid as reference point
+  let sumX = 0, sumY = 0, sumZ = 0;
+  for (let i = 0; i < vertices.length; i += 3) {
+    sumX += vertices[i];
+    sumY += vertices[i + 1];
+    sumZ += vertices[i + 2];
+  }
+  const referencePoint = { x: sumX / vertexCount, y: sumY / vertexCount, z: sumZ / vertexCount };
+
+  const first = object ? object.firstTriangle * 3 : 0;
+  const end = object ? (object.firstTriangle + object.triangleCount) * 3 : triangles.length;
+
+  let totalVolume = 0;
+  for (let t = first; t < end; t += 3) {
+    const volume = calculateTetrahedronVolume(
+      getVertex(mesh, triangles[t]),
+      getVertex(mesh, triangles[t + 1]),
+      getVertex(mesh, triangles[t + 2]),
+      referencePoint
+    );
+    if (isFinite(volume)) {
+      totalVolume += volume;
+    }
+  }
+
+  // Convert from mm³ to cm³ and take absolute value
+  return Math.abs(totalVolume) / 1000;
+}
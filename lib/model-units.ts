@@ -0,0 +1,64 @@
+/**
+ * Model units and scale for unitless formats (STL, OBJ)
+ *
+ * Parsers read coordinates as millimeters. When a file carries no unit, the
+ * customer can pick the unit it was modelled in and a scale percentage; the
+ * resulting factor is applied to the estimate, the viewer and the order.
+ */
+
+import { UNIT_TO_MM, type MeshUnit } from '@/lib/mesh';
+import { scaleDimensions, type ModelDimensions } from '@/lib/build-volume';
+
+export type ModelUnit = 'millimeter' | 'centimeter' | 'meter' | 'inch';
+
+export const MODEL_UNITS: Array<{ value: ModelUnit; label: string; symbol: string }> = [
+  { value: 'millimeter', label: 'Millimeters', symbol: 'mm' },
+  { value: 'centimeter', label: 'Centimeters', symbol: 'cm' },
+  { value: 'meter', label: 'Meters', symbol: 'm' },
+  { value: 'inch', label: 'Inches', symbol: 'in' },
+];
+
+export interface UnitSuggestion {
+  unit: ModelUnit;
+  dimensions: ModelDimensions; // size in mm if the suggestion is accepted
+}
+
+// Parts smaller than this (largest side, mm) were most likely not modelled in mm
+const SMALLEST_LIKELY_PART = 12;
+
+/**
+ * Combined scale factor for the chosen unit and percentage
+ */
+export function getModelScale(unit: ModelUnit, scalePercent: number): number {
+  const percent = isFinite(scalePercent) && scalePercent > 0 ? scalePercent : 100;
+  return UNIT_TO_MM[unit] * percent / 100;
+}
+
+/**
+ * Guess the unit of a unitless model from its size as read in millimeters
+ * Returns no suggestions when the file declares its unit or the size looks plausible.
+ *
+ * - under 1 mm: almost certainly meters
+ * - under SMALLEST_LIKELY_PART mm: inches or centimeters, which sizes alone
+ *   can't tell apart; both are offered unless they would exceed `maxSize`
+ */
+export function suggestModelUnits(
+  dimensions: ModelDimensions,
+  declaredUnit: MeshUnit,
+  maxSize: number
+): UnitSuggestion[] {
+  if (declaredUnit !== 'unknown') {
+    return [];
+  }
+
+  const largest = Math.max(dimensions.x, dimensions.y, dimensions.z);
+  if (!(largest > 0) || largest >= SMALLEST_LIKELY_PART) {
+    return [];
+  }
+
+  const units: ModelUnit[] = largest < 1
+    ? ['meter']
+    : (['inch', 'centimeter'] as const).filter((unit) => largest * UNIT_TO_MM[unit] <= maxSize);
+
+  return units.map((unit) => ({ unit, dimensions: scaleDimensions(dimensions, UNIT_TO_MM[unit]) }));
+}
@@ -0,0 +1,115 @@
+/**
+ * Plate nesting: packs copies of a part's footprint onto the build plate so
+ * a quantity order prints several parts per plate, sharing layer changes and
+ * the heat-up
+ */
+
+import type { BuildVolume, ModelDimensions } from '@/lib/build-volume';
+
+/**
+ * One part on the plate; the footprint's bounding rectangle is centered at
+ * (x, y), in mm from the plate center
+ */
+export interface PlatePlacement {
+  x: number; // mm, along the plate width
+  y: number; // mm, along the plate depth
+  rotated: boolean; // turned 90° on the plate
+}
+
+export interface PlateLayout {
+  perPlate: number; // parts on a full plate
+  plates: number; // plates needed for the whole quantity
+  placements: PlatePlacement[]; // the first plate, full unless the quantity fits on one
+}
+
+// Gap left between neighbouring parts so the nozzle doesn't catch them
+export const PART_SPACING = 5; // mm
+
+// Clear border around the plate edge
+const PLATE_MARGIN = 5; // mm
+
+/**
+ * Rows of equal rectangles filling an area of the plate from its front-left corner
+ */
+interface Grid {
+  columns: number;
+  rows: number;
+  partWidth: number; // mm, rectangle size along the plate width
+  partDepth: number; // mm, along the plate depth
+  rotated: boolean;
+  offsetX: number; // mm from the left edge of the usable plate area
+  offsetY: number; // mm from its front edge
+}
+
+function fitGrid(
+  width: number,
+  depth: number,
+  partWidth: number,
+  partDepth: number,
+  rotated: boolean,
+  offsetX = 0,
+  offsetY = 0
+): Grid {
+  const fit = (space: number, size: number) => (size > space ? 0 : Math.floor((space + PART_SPACING) / (size + PART_SPACING)));
+  return { columns: fit(width, partWidth), rows: fit(depth, partDepth), partWidth, partDepth, rotated, offsetX, offsetY };
+}
+
+function gridCount(grid: Grid): number {
+  return grid.columns * grid.rows;
+}
+
+/**
+ * Pack a part's footprint onto the plate and work out how many plates the
+ * quantity needs. One orientation fills the plate in a grid; the strip left
+ * over along the back or right edge takes parts turned 90°.
+ * Parts larger than the plate still get a plate each.
+ */
+export function nestParts(footprint: ModelDimensions, quantity: number, buildVolume: BuildVolume): PlateLayout {
+  const count = Math.max(1, Math.floor(quantity));
+  const width = buildVolume.width - 2 * PLATE_MARGIN;
+  const depth = buildVolume.depth - 2 * PLATE_MARGIN;
+  const { x: partX, y: partY } = footprint;
+
+  // Main grid in either orientation, plus turned parts in the leftover strip
+  let best: Grid[] = [];
+  let bestCount = 0;
+  for (const [mainX, mainY, rotated] of [[partX, partY, false], [partY, partX, true]] as const) {
+    const main = fitGrid(width, depth, mainX, mainY, rotated);
+    if (gridCount(main) === 0) continue;
+
+    const usedDepth = main.rows * (mainY + PART_SPACING);
+    const usedWidth = main.columns * (mainX + PART_SPACING);
+    const candidates: Grid[][] = [
+      [main],
+      [main, fitGrid(width, depth - usedDepth, mainY, mainX, !rotated, 0, usedDepth)], // strip along the back
+      [main, fitGrid(width - usedWidth, depth, mainY, mainX, !rotated, usedWidth, 0)], // strip along the right
+    ];
+    for (const candidate of candidates) {
+      const total = candidate.reduce((sum, grid) => sum + gridCount(grid), 0);
+      if (total > bestCount) {
+        best = candidate;
+        bestCount = total;
+      }
+    }
+  }
+
+  if (bestCount === 0) {
+    return { perPlate: 1, plates: count, placements: [{ x: 0, y: 0, rotated: false }] };
+  }
+
+  // Lay out the first plate: the main grid, then the strip behind or beside it
+  const placements: PlatePlacement[] = [];
+  for (const grid of best) {
+    for (let row = 0; row < grid.rows; row++) {
+      for (let column = 0; column < grid.columns && placements.length < count; column++) {
+        placements.push({
+          x: -width / 2 + grid.offsetX + column * (grid.partWidth + PART_SPACING) + grid.partWidth / 2,
+          y: -depth / 2 + grid.offsetY + row * (grid.partDepth + PART_SPACING) + grid.partDepth / 2,
+          rotated: grid.rotated,
+        });
+      }
+    }
+  }
+
+  return { perPlate: bestCount, plates: Math.ceil(count / bestCount), placements };
+}
@@ -0,0 +1,328 @@
+/**
+ * Print-orientation optimizer: tries the part on its flat faces, sides and
+ * principal axes and ranks the orientations by support, height and bed contact
+ */
+
+import type { ModelDimensions } from '@/lib/build-volume';
+import { computeMeshBounds, type IndexedMesh } from '@/lib/mesh';
+import { BED_TOLERANCE, DEFAULT_OVERHANG_ANGLE, analyzeSupports } from '@/lib/supports';
+
+/**
+ * 3×3 rotation matrix, row-major, taking the uploaded model's coordinates
+ * into the print orientation (Z up)
+ */
+export type Rotation = number[];
+
+export interface OrientationCandidate {
+  label: string; // e.g. "As uploaded", "On a flat face"
+  rotation: Rotation;
+  dimensions: ModelDimensions; // mm in the print orientation, unscaled
+  supportVolume: number; // mm³ under overhangs, to the plate or the model, unscaled
+  contactArea: number; // mm² of the part resting on the build plate, unscaled
+  score: number; // 0 (best) to 1; candidates are ranked by it
+}
+
+export const IDENTITY_ROTATION: Rotation = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Orientations offered to the customer; "As uploaded" is always kept as well
+const MAX_ORIENTATIONS = 4;
+
+// Largest groups of coplanar-facing triangles tried as the face to print on
+const MAX_FACE_CANDIDATES = 8;
+
+// Directions closer than this are the same orientation
+const SAME_DIRECTION_COS = Math.cos((3 * Math.PI) / 180);
+
+// Weights of the normalized criteria; supports cost material, time and
+// surface finish, height costs layers, and a small footprint risks detaching
+const SUPPORT_WEIGHT = 0.5;
+const HEIGHT_WEIGHT = 0.3;
+const CONTACT_WEIGHT = 0.2;
+
+type Vector = [number, number, number];
+
+interface Direction {
+  label: string;
+  down: Vector; // unit vector in model coordinates that ends up pointing at the plate
+}
+
+/**
+ * Rank candidate print orientations of a mesh, best first
+ * Overhangs are judged at `overhangAngle` from vertical, as in the estimate.
+ */
+export function findOrientations(
+  mesh: IndexedMesh,
+  overhangAngle = DEFAULT_OVERHANG_ANGLE,
+  onProgress?: (progress: number) => void
+): OrientationCandidate[] {
+  if (mesh.triangles.length === 0) {
+    return [];
+  }
+
+  const directions: Direction[] = [];
+  const addDirection = (label: string, down: Vector) => {
+    const length = Math.hypot(...down);
+    if (!(length > 0)) return;
+    const unit: Vector = [down[0] / length, down[1] / length, down[2] / length];
+    if (directions.some((direction) => dot(direction.down, unit) > SAME_DIRECTION_COS)) return;
+    directions.push({ label, down: unit });
+  };
+
+  addDirection('As uploaded', [0, 0, -1]);
+  addDirection('Upside down', [0, 0, 1]);
+  for (const axis of [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0]] as Vector[]) {
+    addDirection('On its side', axis);
+  }
+  for (const normal of findLargeFaces(mesh)) {
+    addDirection('On a flat face', normal);
+  }
+  for (const axis of findPrincipalAxes(mesh)) {
+    addDirection('Along a principal axis', axis);
+    addDirection('Along a principal axis', [-axis[0], -axis[1], -axis[2]]);
+  }
+
+  const candidates = directions.map((direction, index) => {
+    const rotation = rotationToPlate(direction.down);
+    const rotated = rotateMesh(mesh, rotation);
+    const { min, max } = computeMeshBounds(rotated);
+    const supports = analyzeSupports(rotated, overhangAngle);
+    onProgress?.((index + 1) / directions.length);
+    return {
+      label: direction.label,
+      rotation,
+      dimensions: { x: max.x - min.x, y: max.y - min.y, z: max.z - min.z },
+      supportVolume: supports.plateVolume + supports.modelVolume,
+      contactArea: measureContactArea(rotated, min.z),
+      score: 0,
+    };
+  });
+
+  // Each criterion is scaled by its worst value, so the weights compare like with like
+  const maxSupport = Math.max(...candidates.map((candidate) => candidate.supportVolume));
+  const maxHeight = Math.max(...candidates.map((candidate) => candidate.dimensions.z));
+  const maxContact = Math.max(...candidates.map((candidate) => candidate.contactArea));
+  for (const candidate of candidates) {
+    candidate.score =
+      SUPPORT_WEIGHT * (maxSupport > 0 ? candidate.supportVolume / maxSupport : 0) +
+      HEIGHT_WEIGHT * (maxHeight > 0 ? candidate.dimensions.z / maxHeight : 0) +
+      CONTACT_WEIGHT * (maxContact > 0 ? 1 - candidate.contactArea / maxContact : 0);
+  }
+
+  // Stable sort: on a tie the orientation the designer chose wins. Mirror
+  // images (e.g. either side of a box) print the same and are offered once.
+  const best: OrientationCandidate[] = [];
+  for (const candidate of [...candidates].sort((a, b) => a.score - b.score)) {
+    if (best.length === MAX_ORIENTATIONS) break;
+    if (!best.some((other) => printsAlike(other, candidate))) best.push(candidate);
+  }
+  if (!best.includes(candidates[0])) {
+    best.push(candidates[0]);
+  }
+
+  return best;
+}
+
+/**
+ * Copy of the mesh rotated into the print orientation
+ */
+export function rotateMesh(mesh: IndexedMesh, rotation: Rotation): IndexedMesh {
+  if (isIdentityRotation(rotation)) {
+    return mesh;
+  }
+  const [r0, r1, r2, r3, r4, r5, r6, r7, r8] = rotation;
+  const source = mesh.vertices;
+  const vertices = new Float32Array(source.length);
+  for (let i = 0; i < source.length; i += 3) {
+    const x = source[i], y = source[i + 1], z = source[i + 2];
+    vertices[i] = r0 * x + r1 * y + r2 * z;
+    vertices[i + 1] = r3 * x + r4 * y + r5 * z;
+    vertices[i + 2] = r6 * x + r7 * y + r8 * z;
+  }
+  return { ...mesh, vertices };
+}
+
+export function isIdentityRotation(rotation: Rotation): boolean {
+  return rotation.every((value, index) => Math.abs(value - IDENTITY_ROTATION[index]) < 1e-9);
+}
+
+/**
+ * Describe a rotation as angles about X, then Y, then Z (degrees), the way
+ * slicers take rotations
+ */
+export function describeRotation(rotation: Rotation): string {
+  const [r0, , , r3, , , r6, r7, r8] = rotation;
+  const degrees = (radians: number) => {
+    const value = Math.round((radians * 180) / Math.PI * 10) / 10;
+    return `${value === 0 ? 0 : value}°`; // no "-0°"
+  };
+  const x = Math.atan2(r7, r8);
+  const y = Math.asin(Math.max(-1, Math.min(1, -r6)));
+  const z = Math.atan2(r3, r0);
+  return `X ${degrees(x)}, Y ${degrees(y)}, Z ${degrees(z)}`;
+}
+
+/**
+ * Whether two orientations have the same height, supports and footprint
+ */
+function printsAlike(a: OrientationCandidate, b: OrientationCandidate): boolean {
+  const close = (x: number, y: number, tolerance: number) => Math.abs(x - y) <= tolerance + 0.01 * Math.max(x, y);
+  return close(a.dimensions.z, b.dimensions.z, 0.1) &&
+    close(a.supportVolume, b.supportVolume, 1) &&
+    close(a.contactArea, b.contactArea, 1);
+}
+
+/**
+ * Rotation that turns `down` to point straight at the plate (-Z)
+ */
+function rotationToPlate(down: Vector): Rotation {
+  const target: Vector = [0, 0, -1];
+  const cos = dot(down, target);
+  if (cos > 1 - 1e-12) {
+    return [...IDENTITY_ROTATION];
+  }
+  if (cos < -1 + 1e-12) {
+    // Upside down: half a turn about X
+    return [1, 0, 0, 0, -1, 0, 0, 0, -1];
+  }
+
+  // Rodrigues' formula: R = I + [v]× + [v]×² / (1 + cos), v = down × target
+  const [vx, vy, vz] = cross(down, target);
+  const k = 1 / (1 + cos);
+  return [
+    1 - (vy * vy + vz * vz) * k, vx * vy * k - vz, vx * vz * k + vy,
+    vx * vy * k + vz, 1 - (vx * vx + vz * vz) * k, vy * vz * k - vx,
+    vx * vz * k - vy, vy * vz * k + vx, 1 - (vx * vx + vy * vy) * k,
+  ];
+}
+
+/**
+ * Outward normals of the largest flat regions, found by grouping triangles
+ * with (almost) the same normal and adding up their area
+ */
+function findLargeFaces(mesh: IndexedMesh): Vector[] {
+  const { vertices, triangles } = mesh;
+  const groups = new Map<number, { area: number; normal: Vector }>();
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = triangles[t] * 3, b = triangles[t + 1] * 3, c = triangles[t + 2] * 3;
+    const normal = cross(
+      [vertices[b] - vertices[a], vertices[b + 1] - vertices[a + 1], vertices[b + 2] - vertices[a + 2]],
+      [vertices[c] - vertices[a], vertices[c + 1] - vertices[a + 1], vertices[c + 2] - vertices[a + 2]]
+    );
+    const doubleArea = Math.hypot(...normal);
+    if (!(doubleArea > 0)) continue;
+
+    // Normals on a 0.02 grid share a group
+    const key =
+      Math.round((normal[0] / doubleArea + 1) * 50) * 10201 +
+      Math.round((normal[1] / doubleArea + 1) * 50) * 101 +
+      Math.round((normal[2] / doubleArea + 1) * 50);
+    const group = groups.get(key) ?? { area: 0, normal: [0, 0, 0] };
+    group.area += doubleArea / 2;
+    group.normal[0] += normal[0] / 2;
+    group.normal[1] += normal[1] / 2;
+    group.normal[2] += normal[2] / 2;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => b.area - a.area)
+    .slice(0, MAX_FACE_CANDIDATES)
+    .map((group) => group.normal);
+}
+
+/**
+ * Principal axes of the vertex cloud (eigenvectors of its covariance)
+ */
+function findPrincipalAxes(mesh: IndexedMesh): Vector[] {
+  const { vertices } = mesh;
+  const count = vertices.length / 3;
+  const mean: Vector = [0, 0, 0];
+  for (let i = 0; i < vertices.length; i += 3) {
+    mean[0] += vertices[i] / count;
+    mean[1] += vertices[i + 1] / count;
+    mean[2] += vertices[i + 2] / count;
+  }
+
+  const covariance = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  for (let i = 0; i < vertices.length; i += 3) {
+    const d = [vertices[i] - mean[0], vertices[i + 1] - mean[1], vertices[i + 2] - mean[2]];
+    for (let row = 0; row < 3; row++) {
+      for (let column = 0; column < 3; column++) {
+        covariance[row * 3 + column] += (d[row] * d[column]) / count;
+      }
+    }
+  }
+
+  return jacobiEigenvectors(covariance);
+}
+
+/**
+ * Eigenvectors of a symmetric 3×3 matrix by Jacobi rotations
+ */
+function jacobiEigenvectors(matrix: number[]): Vector[] {
+  const a = [...matrix];
+  const v = [...IDENTITY_ROTATION];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const offDiagonal = Math.abs(a[1]) + Math.abs(a[2]) + Math.abs(a[5]);
+    if (offDiagonal < 1e-12) break;
+
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      const apq = a[p * 3 + q];
+      if (Math.abs(apq) < 1e-15) continue;
+      const theta = (a[q * 3 + q] - a[p * 3 + p]) / (2 * apq);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+
+      // a = Jᵀ a J, v = v J
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k * 3 + p], akq = a[k * 3 + q];
+        a[k * 3 + p] = c * akp - s * akq;
+        a[k * 3 + q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p * 3 + k], aqk = a[q * 3 + k];
+        a[p * 3 + k] = c * apk - s * aqk;
+        a[q * 3 + k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[k * 3 + p], vkq = v[k * 3 + q];
+        v[k * 3 + p] = c * vkp - s * vkq;
+        v[k * 3 + q] = s * vkp + c * vkq;
+      }
+    }
+  }
+
+  // Eigenvectors are the columns of v
+  return [0, 1, 2].map((column): Vector => [v[column], v[3 + column], v[6 + column]]);
+}
+
+/**
+ * Area of the downward faces lying on the plate (within BED_TOLERANCE of the bottom)
+ */
+function measureContactArea(mesh: IndexedMesh, minZ: number): number {
+  const { vertices, triangles } = mesh;
+  const limit = minZ + BED_TOLERANCE;
+  let area = 0;
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = triangles[t] * 3, b = triangles[t + 1] * 3, c = triangles[t + 2] * 3;
+    if (vertices[a + 2] > limit || vertices[b + 2] > limit || vertices[c + 2] > limit) continue;
+    const normalZ =
+      (vertices[b] - vertices[a]) * (vertices[c + 1] - vertices[a + 1]) -
+      (vertices[b + 1] - vertices[a + 1]) * (vertices[c] - vertices[a]);
+    if (normalZ < 0) area -= normalZ / 2;
+  }
+
+  return area;
+}
+
+function dot(a: Vector, b: Vector): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vector, b: Vector): Vector {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
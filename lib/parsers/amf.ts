@@ -0,0 +1,121 @@
+import JSZip from 'jszip';
+import { MeshBuilder, UNIT_TO_MM, type IndexedMesh, type MeshUnit } from '@/lib/mesh';
+import { forEachXmlTag, readXmlText } from '@/lib/parsers/xml';
+
+/**
+ * Parse an AMF file, plain XML or zip-compressed, into an indexed mesh
+ * Every <object> becomes one mesh object, converted to millimeters
+ */
+export async function parseAMF(data: ArrayBuffer): Promise<IndexedMesh> {
+  const bytes = new Uint8Array(data, 0, Math.min(2, data.byteLength));
+
+  // Compressed AMF is a zip archive ("PK") holding a single XML document
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    const zip = await JSZip.loadAsync(data);
+    const entry = Object.values(zip.files).find((file) => !file.dir);
+    if (!entry) {
+      throw new Error('Compressed AMF archive is empty');
+    }
+    return parseAMFText(await entry.async('string'));
+  }
+
+  return parseAMFText(new TextDecoder().decode(data));
+}
+
+function parseAMFText(text: string): IndexedMesh {
+  let units: MeshUnit = 'millimeter';
+  let unitFactor = 1;
+  const builder = new MeshBuilder(Math.ceil(text.length / 200));
+
+  let objectCount = 0;
+  let objectName = '';
+  let objectStarted = false;
+  let meshVertexBase = -1;
+  let meshVertexCount = 0;
+  let coordinates = { x: 0, y: 0, z: 0 };
+  let triangle = [-1, -1, -1];
+  let inMetadata = false;
+
+  const beginObject = () => {
+    if (!objectStarted) {
+      builder.beginObject(objectName || `Object ${objectCount}`);
+      objectStarted = true;
+    }
+  };
+
+  forEachXmlTag(text, (tag) => {
+    switch (tag.name) {
+      case 'amf': {
+        if (tag.closing) break;
+        // AMF defaults to millimeters
+        const unit = (tag.attributes.unit || 'millimeter').toLowerCase() as MeshUnit;
+        if (unit in UNIT_TO_MM) {
+          units = unit;
+          unitFactor = UNIT_TO_MM[unit as keyof typeof UNIT_TO_MM];
+        }
+        break;
+      }
+      case 'object':
+        if (!tag.closing) {
+          objectCount++;
+          objectName = '';
+          objectStarted = false;
+        }
+        break;
+      case 'metadata':
+        inMetadata = !tag.closing && !tag.selfClosing;
+        if (inMetadata && tag.attributes.type === 'name' && objectCount > 0 && !objectStarted) {
+          objectName = readXmlText(text, tag);
+        }
+        break;
+      case 'mesh':
+        if (!tag.closing) {
+          beginObject();
+          meshVertexBase = -1;
+          meshVertexCount = 0;
+        }
+        break;
+      case 'coordinates':
+        if (!tag.closing) coordinates = { x: 0, y: 0, z: 0 };
+        break;
+      case 'x':
+      case 'y':
+      case 'z':
+        if (!tag.closing && !inMetadata) {
+          const value = parseFloat(readXmlText(text, tag));
+          coordinates[tag.name] = isNaN(value) ? 0 : value * unitFactor;
+        }
+        break;
+      case 'vertex':
+        if (tag.closing) {
+          const index = builder.addVertex(coordinates.x, coordinates.y, coordinates.z);
+          if (meshVertexBase === -1) meshVertexBase = index;
+          meshVertexCount++;
+        }
+        break;
+      case 'triangle':
+        if (!tag.closing) {
+          triangle = [-1, -1, -1];
+        } else if (triangle.every((v) => v >= 0 && v < meshVertexCount)) {
+          builder.addTriangle(meshVertexBase + triangle[0], meshVertexBase + triangle[1], meshVertexBase + triangle[2]);
+        }
+        break;
+      case 'v1':
+      case 'v2':
+      case 'v3':
+        if (!tag.closing) {
+          const value = parseInt(readXmlText(text, tag));
+          triangle[Number(tag.name[1]) - 1] = isNaN(value) ? -1 : value;
+        }
+        break;
+    }
+  });
+
+  const mesh = builder.build(units);
+  if (mesh.triangles.length === 0) {
+    throw new Error('No triangles found in AMF file');
+  }
+
+  console.log(`AMF file (${units}): ${mesh.objects.length} object(s), ${mesh.triangles.length / 3} triangles`);
+  return mesh;
+}
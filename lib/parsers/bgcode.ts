@@ -0,0 +1,241 @@
+/**
+ * Decoder for Prusa binary G-code (.bgcode)
+ *
+ * A bgcode file is a sequence of blocks: metadata blocks hold INI-style
+ * "key=value" lines, G-code blocks hold the program text, optionally
+ * compressed (deflate or heatshrink) and MeatPack-encoded.
+ */
+
+export interface DecodedBinaryGcode {
+  metadata: string[]; // "key=value" lines from all metadata blocks
+  gcode: string;
+}
+
+const MAGIC = 0x45444347; // "GCDE" little-endian
+
+// Block types; the others (0, 2, 3, 4) are metadata
+const GCODE_BLOCK = 1;
+const THUMBNAIL_BLOCK = 5;
+
+// Block compression
+const NO_COMPRESSION = 0;
+const DEFLATE = 1;
+const HEATSHRINK_11_4 = 2;
+const HEATSHRINK_12_4 = 3;
+
+const PLAIN_GCODE_ENCODING = 0; // otherwise MeatPack, with or without comments
+
+export function isBinaryGcode(data: ArrayBuffer): boolean {
+  return data.byteLength >= 10 && new DataView(data).getUint32(0, true) === MAGIC;
+}
+
+/**
+ * Decode every block of a bgcode file into metadata lines and G-code text
+ * Thumbnails are skipped.
+ */
+export async function decodeBinaryGcode(data: ArrayBuffer): Promise<DecodedBinaryGcode> {
+  if (!isBinaryGcode(data)) {
+    throw new Error('Not a binary G-code file');
+  }
+
+  const view = new DataView(data);
+  const checksumSize = view.getUint16(8, true) === 1 ? 4 : 0; // CRC32 after every block
+  const metadata: string[] = [];
+  const gcodeChunks: string[] = [];
+  const meatPack = createMeatPackDecoder();
+  const gcodeDecoder = new TextDecoder(); // streaming, as characters may straddle blocks
+
+  let offset = 10;
+  while (offset + 8 <= data.byteLength) {
+    const type = view.getUint16(offset, true);
+    const compression = view.getUint16(offset + 2, true);
+    const uncompressedSize = view.getUint32(offset + 4, true);
+    let headerSize = 8;
+    let storedSize = uncompressedSize;
+    if (compression !== NO_COMPRESSION) {
+      storedSize = view.getUint32(offset + 8, true);
+      headerSize = 12;
+    }
+
+    const paramsSize = type === THUMBNAIL_BLOCK ? 6 : 2;
+    const dataStart = offset + headerSize + paramsSize;
+    const dataEnd = dataStart + storedSize;
+    if (dataEnd > data.byteLength) {
+      throw new Error('Binary G-code file is truncated');
+    }
+
+    if (type !== THUMBNAIL_BLOCK) {
+      const encoding = view.getUint16(offset + headerSize, true);
+      const payload = await decompress(new Uint8Array(data, dataStart, storedSize), compression, uncompressedSize);
+
+      if (type === GCODE_BLOCK) {
+        const text = encoding === PLAIN_GCODE_ENCODING ? payload : meatPack(payload);
+        gcodeChunks.push(gcodeDecoder.decode(text, { stream: true }));
+      } else {
+        // File, slicer, printer and print metadata are all INI-style text
+        metadata.push(...new TextDecoder().decode(payload).split('\n').filter(Boolean));
+      }
+    }
+
+    offset = dataEnd + checksumSize;
+  }
+
+  return { metadata, gcode: gcodeChunks.join('') };
+}
+
+async function decompress(bytes: Uint8Array, compression: number, size: number): Promise<Uint8Array> {
+  switch (compression) {
+    case NO_COMPRESSION:
+      return bytes;
+    case DEFLATE: {
+      const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    case HEATSHRINK_11_4:
+      return heatshrinkDecode(bytes, 11, 4, size);
+    case HEATSHRINK_12_4:
+      return heatshrinkDecode(bytes, 12, 4, size);
+    default:
+      throw new Error(`Unsupported binary G-code compression: ${compression}`);
+  }
+}
+
+/**
+ * Heatshrink (LZSS) decoder: a 1 tag bit selects either an 8-bit literal or a
+ * back-reference of `windowBits` offset and `lookaheadBits` length, MSB first
+ */
+function heatshrinkDecode(input: Uint8Array, windowBits: number, lookaheadBits: number, size: number): Uint8Array {
+  const output = new Uint8Array(size);
+  let written = 0;
+  let bitPosition = 0;
+  const totalBits = input.length * 8;
+
+  const readBits = (count: number): number => {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = input[bitPosition >> 3];
+      value = (value << 1) | ((byte >> (7 - (bitPosition & 7))) & 1);
+      bitPosition++;
+    }
+    return value;
+  };
+
+  while (written < size && bitPosition < totalBits) {
+    if (readBits(1)) {
+      if (bitPosition + 8 > totalBits) break;
+      output[written++] = readBits(8);
+    } else {
+      if (bitPosition + windowBits + lookaheadBits > totalBits) break;
+      const distance = readBits(windowBits) + 1;
+      const count = readBits(lookaheadBits) + 1;
+      if (distance > written) {
+        throw new Error('Corrupt heatshrink data in binary G-code');
+      }
+      for (let i = 0; i < count && written < size; i++) {
+        output[written] = output[written - distance];
+        written++;
+      }
+    }
+  }
+
+  return output.subarray(0, written);
+}
+
+// MeatPack packs the most common G-code characters into 4 bits
+const MEATPACK_TABLE = '0123456789. \nGX';
+const MEATPACK_SIGNAL = 0xff;
+const MEATPACK_ENABLE = 251;
+const MEATPACK_DISABLE = 250;
+const MEATPACK_RESET = 249;
+const MEATPACK_NO_SPACES_ON = 247;
+const MEATPACK_NO_SPACES_OFF = 246;
+
+/**
+ * MeatPack decoder; its state carries across G-code blocks since the packing
+ * mode is only switched on once at the start of the program
+ */
+function createMeatPackDecoder(): (bytes: Uint8Array) => Uint8Array {
+  let packing = false;
+  let noSpaces = false;
+  let signalCount = 0;
+  let commandNext = false;
+  let literalCount = 0;
+  let pendingChar = -1;
+
+  const table = Array.from(MEATPACK_TABLE, (char) => char.charCodeAt(0));
+  const unpack = (code: number) => (noSpaces && code === 11 ? 0x45 /* E */ : table[code]);
+
+  return (bytes) => {
+    // Every input byte expands to at most two characters
+    const output = new Uint8Array(bytes.length * 2);
+    let written = 0;
+
+    const handlePacked = (byte: number) => {
+      if (!packing) {
+        output[written++] = byte;
+        return;
+      }
+      if (literalCount > 0) {
+        output[written++] = byte;
+        if (pendingChar !== -1) {
+          output[written++] = pendingChar;
+          pendingChar = -1;
+        }
+        literalCount--;
+        return;
+      }
+
+      const low = byte & 0xf;
+      const high = byte >> 4;
+      if (low === 0xf) {
+        literalCount++;
+        if (high === 0xf) literalCount++;
+        else pendingChar = unpack(high);
+        return;
+      }
+
+      const first = unpack(low);
+      output[written++] = first;
+      if (first !== 0x0a) {
+        // A newline ends the byte; its upper half is padding
+        if (high === 0xf) literalCount++;
+        else output[written++] = unpack(high);
+      }
+    };
+
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i];
+
+      if (byte === MEATPACK_SIGNAL) {
+        if (signalCount) {
+          commandNext = true;
+          signalCount = 0;
+        } else {
+          signalCount = 1;
+        }
+        continue;
+      }
+
+      if (commandNext) {
+        commandNext = false;
+        switch (byte) {
+          case MEATPACK_ENABLE: packing = true; break;
+          case MEATPACK_DISABLE: packing = false; break;
+          case MEATPACK_NO_SPACES_ON: noSpaces = true; break;
+          case MEATPACK_NO_SPACES_OFF: noSpaces = false; break;
+          case MEATPACK_RESET: packing = false; noSpaces = false; break;
+        }
+        continue;
+      }
+
+      if (signalCount) {
+        // A lone 0xFF is a packed byte with two literal characters following
+        signalCount = 0;
+        handlePacked(MEATPACK_SIGNAL);
+      }
+      handlePacked(byte);
+    }
+
+    return output.subarray(0, written);
+  };
+}
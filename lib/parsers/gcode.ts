@@ -0,0 +1,354 @@
+import type { MeshBounds } from '@/lib/mesh';
+import { decodeBinaryGcode, isBinaryGcode } from '@/lib/parsers/bgcode';
+
+/**
+ * Print statistics the slicer wrote into the G-code comments
+ * Any of them may be missing, depending on the slicer and its settings.
+ */
+export interface SlicerReport {
+  slicer: string | null; // e.g. "PrusaSlicer 2.7.1"
+  printTime: number | null; // minutes
+  filamentGrams: number | null;
+  filamentMeters: number | null;
+  layerHeight: number | null; // mm
+  printerModel: string | null;
+  filamentType: string | null; // e.g. "PLA"
+}
+
+/**
+ * Extrusion moves of a G-code program, grouped into layers
+ */
+export interface Toolpath {
+  positions: Float32Array; // XYZ pairs, one pair per extrusion segment, in mm
+  layerStarts: Uint32Array; // first segment of each layer, followed by the total segment count
+  layerZ: Float32Array; // print height of each layer
+  bounds: MeshBounds | null; // extent of the printed part, null without extrusion
+  filamentLength: number; // mm of filament fed through the extruder
+  duration: number; // minutes, from move lengths and feed rates (acceleration ignored)
+  truncated: boolean; // true when later layers were left out to cap memory
+}
+
+export interface ParsedGcode {
+  report: SlicerReport;
+  toolpath: Toolpath;
+}
+
+// Segments kept for the preview (24 bytes each); the estimate still reads the whole file
+const MAX_TOOLPATH_SEGMENTS = 1_000_000;
+
+// Extrusion this far above the current layer starts a new one
+const LAYER_TOLERANCE = 0.005; // mm
+
+const INCH = 25.4; // mm
+
+/**
+ * Parse a text or binary (.bgcode) G-code file
+ */
+export async function parseGcode(data: ArrayBuffer): Promise<ParsedGcode> {
+  if (isBinaryGcode(data)) {
+    const { metadata, gcode } = await decodeBinaryGcode(data);
+    const report = emptyReport();
+    for (const line of metadata) {
+      readReportComment(line, report);
+    }
+    return parseGcodeText(gcode, report);
+  }
+  return parseGcodeText(new TextDecoder().decode(data), emptyReport());
+}
+
+function emptyReport(): SlicerReport {
+  return {
+    slicer: null,
+    printTime: null,
+    filamentGrams: null,
+    filamentMeters: null,
+    layerHeight: null,
+    printerModel: null,
+    filamentType: null,
+  };
+}
+
+function parseGcodeText(text: string, report: SlicerReport): ParsedGcode {
+  const builder = createToolpathBuilder();
+
+  // Slicers that mark layers put the purge line of the start G-code before the
+  // first marker; it is not part of the printed model
+  const layerMarker = /^;\s*(LAYER_CHANGE|LAYER:|CHANGE_LAYER)/m;
+  let printing = !layerMarker.test(text);
+
+  let absolute = true;
+  let absoluteExtrusion = true;
+  let unitScale = 1;
+  let x = 0, y = 0, z = 0, e = 0;
+  let feedRate = 1500; // mm/min until the program sets one
+  let totalExtruded = 0;
+  let totalSeconds = 0;
+
+  let lineStart = 0;
+  while (lineStart < text.length) {
+    let lineEnd = text.indexOf('\n', lineStart);
+    if (lineEnd === -1) lineEnd = text.length;
+    const line = text.slice(lineStart, lineEnd);
+    lineStart = lineEnd + 1;
+
+    const commentStart = line.indexOf(';');
+    if (commentStart !== -1) {
+      const comment = line.slice(commentStart + 1);
+      if (!printing && layerMarker.test(`;${comment}`)) {
+        printing = true;
+      }
+      readReportComment(comment, report);
+    }
+
+    const code = (commentStart === -1 ? line : line.slice(0, commentStart)).trim().toUpperCase();
+    if (code.length < 2) continue;
+
+    const command = /^([GM])(\d+)/.exec(code);
+    if (!command) continue;
+    const number = parseInt(command[2]);
+
+    if (command[1] === 'M') {
+      if (number === 82) absoluteExtrusion = true;
+      else if (number === 83) absoluteExtrusion = false;
+      continue;
+    }
+
+    switch (number) {
+      case 0:
+      case 1:
+      case 2:
+      case 3: {
+        // Arcs are approximated by their chord
+        const params = readParams(code, command[0].length);
+        const target = (value: number | undefined, current: number) =>
+          value === undefined ? current : absolute ? value * unitScale : current + value * unitScale;
+        const nx = target(params.X, x);
+        const ny = target(params.Y, y);
+        const nz = target(params.Z, z);
+        let de = 0;
+        if (params.E !== undefined) {
+          de = absoluteExtrusion ? params.E * unitScale - e : params.E * unitScale;
+          e += de;
+        }
+        if (params.F !== undefined && params.F > 0) {
+          feedRate = params.F * unitScale;
+        }
+
+        const length = Math.hypot(nx - x, ny - y, nz - z);
+        totalSeconds += (length > 0 ? length : Math.abs(de)) / (feedRate / 60);
+        totalExtruded += de;
+
+        if (printing && de > 0 && (nx !== x || ny !== y)) {
+          builder.addSegment(x, y, z, nx, ny, nz);
+        }
+        x = nx;
+        y = ny;
+        z = nz;
+        break;
+      }
+      case 20:
+        unitScale = INCH;
+        break;
+      case 21:
+        unitScale = 1;
+        break;
+      case 28: {
+        // Homing without axis letters homes all axes
+        const params = readParams(code, command[0].length);
+        const all = params.X === undefined && params.Y === undefined && params.Z === undefined;
+        if (all || params.X !== undefined) x = 0;
+        if (all || params.Y !== undefined) y = 0;
+        if (all || params.Z !== undefined) z = 0;
+        break;
+      }
+      case 90:
+        absolute = true;
+        absoluteExtrusion = true;
+        break;
+      case 91:
+        absolute = false;
+        absoluteExtrusion = false;
+        break;
+      case 92: {
+        const params = readParams(code, command[0].length);
+        if (params.X !== undefined) x = params.X * unitScale;
+        if (params.Y !== undefined) y = params.Y * unitScale;
+        if (params.Z !== undefined) z = params.Z * unitScale;
+        if (params.E !== undefined) e = params.E * unitScale;
+        break;
+      }
+    }
+  }
+
+  const toolpath = builder.build(totalExtruded, totalSeconds / 60);
+  console.log(
+    `G-code (${report.slicer ?? 'unknown slicer'}): ${toolpath.layerZ.length} layers, ` +
+    `${toolpath.layerStarts[toolpath.layerStarts.length - 1]} extrusion segments${toolpath.truncated ? ' (preview truncated)' : ''}`
+  );
+  return { report, toolpath };
+}
+
+/**
+ * Read the letter/number parameters of a G-code word, with or without spaces
+ * between them (MeatPack strips spaces)
+ */
+function readParams(code: string, start: number): Record<string, number> {
+  const params: Record<string, number> = {};
+  const pattern = /([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/g;
+  pattern.lastIndex = start;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code))) {
+    params[match[1]] = parseFloat(match[2]);
+  }
+  return params;
+}
+
+function createToolpathBuilder() {
+  let positions = new Float32Array(6 * 4096);
+  let segmentCount = 0;
+  let truncated = false;
+  const layerStarts: number[] = [];
+  const layerZ: number[] = [];
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+
+  const include = (x: number, y: number, z: number) => {
+    if (x < min.x) min.x = x;
+    if (y < min.y) min.y = y;
+    if (z < min.z) min.z = z;
+    if (x > max.x) max.x = x;
+    if (y > max.y) max.y = y;
+    if (z > max.z) max.z = z;
+  };
+
+  return {
+    addSegment(x1: number, y1: number, z1: number, x2: number, y2: number, z2: number) {
+      // The part stands on the plate, so its height is measured from z = 0
+      include(x1, y1, 0);
+      include(x2, y2, z2);
+
+      const currentZ = layerZ.length > 0 ? layerZ[layerZ.length - 1] : NaN;
+      if (!(Math.abs(z2 - currentZ) <= LAYER_TOLERANCE)) {
+        layerStarts.push(segmentCount);
+        layerZ.push(z2);
+      }
+
+      if (segmentCount >= MAX_TOOLPATH_SEGMENTS) {
+        truncated = true;
+        return;
+      }
+      if ((segmentCount + 1) * 6 > positions.length) {
+        const grown = new Float32Array(Math.min(positions.length * 2, MAX_TOOLPATH_SEGMENTS * 6));
+        grown.set(positions);
+        positions = grown;
+      }
+      positions.set([x1, y1, z1, x2, y2, z2], segmentCount * 6);
+      segmentCount++;
+    },
+
+    build(filamentLength: number, duration: number): Toolpath {
+      return {
+        positions: positions.slice(0, segmentCount * 6),
+        layerStarts: Uint32Array.from([...layerStarts, segmentCount]),
+        layerZ: Float32Array.from(layerZ),
+        bounds: segmentCount > 0 || truncated ? { min, max } : null,
+        filamentLength: Math.max(0, filamentLength),
+        duration,
+        truncated,
+      };
+    },
+  };
+}
+
+/**
+ * Pick slicer statistics out of a comment (or a bgcode metadata line)
+ *
+ * PrusaSlicer and OrcaSlicer write "key = value", Bambu Studio "key: value"
+ * with several pairs per line separated by ";", and Cura "KEY:value".
+ */
+function readReportComment(comment: string, report: SlicerReport): void {
+  const text = comment.trim();
+  if (!text) return;
+
+  const generator = /^generated (?:by|with) (.+?)(?: on .*)?$/i.exec(text);
+  if (generator) {
+    report.slicer = generator[1].replace('Cura_SteamEngine', 'Cura').trim();
+    return;
+  }
+  if (/^BambuStudio \S+$/.test(text)) {
+    report.slicer = text;
+    return;
+  }
+
+  for (const pair of text.split(';')) {
+    const separator = /\s*[=:]\s*/.exec(pair);
+    if (!separator) continue;
+    const key = pair.slice(0, separator.index).trim().toLowerCase();
+    const value = pair.slice(separator.index + separator[0].length).trim();
+    if (!value) continue;
+
+    switch (key) {
+      case 'producer':
+        report.slicer = value;
+        break;
+      case 'estimated printing time (normal mode)':
+      case 'total estimated time':
+        report.printTime = parseDuration(value) ?? report.printTime;
+        break;
+      case 'time': // Cura, in seconds
+      case 'print.time':
+        if (isFinite(Number(value))) report.printTime = Number(value) / 60;
+        break;
+      case 'filament used [g]':
+      case 'total filament used [g]':
+      case 'total filament weight [g]':
+        report.filamentGrams = sumList(value) ?? report.filamentGrams;
+        break;
+      case 'filament used [mm]':
+      case 'total filament length [mm]': {
+        const length = sumList(value);
+        if (length !== null) report.filamentMeters = length / 1000;
+        break;
+      }
+      case 'filament used': // Cura, e.g. "1.23456m"
+        report.filamentMeters = sumList(value.replace(/m/g, '')) ?? report.filamentMeters;
+        break;
+      case 'layer_height':
+      case 'layer height': {
+        const height = parseFloat(value);
+        if (height > 0) report.layerHeight = height;
+        break;
+      }
+      case 'printer_model':
+      case 'target_machine.name':
+      case 'machine_name':
+        report.printerModel = value;
+        break;
+      case 'filament_type':
+        report.filamentType = value.split(/[;,]/)[0].trim() || null;
+        break;
+    }
+  }
+}
+
+/**
+ * Parse a slicer duration such as "1d 2h 3m 4s" into minutes
+ */
+function parseDuration(value: string): number | null {
+  const units: Record<string, number> = { d: 1440, h: 60, m: 1, s: 1 / 60 };
+  let minutes = 0;
+  let matched = false;
+  for (const match of value.matchAll(/(\d+(?:\.\d+)?)\s*([dhms])/g)) {
+    minutes += parseFloat(match[1]) * units[match[2]];
+    matched = true;
+  }
+  return matched ? minutes : null;
+}
+
+/**
+ * Sum a comma-separated per-extruder list such as "12.3, 0.0"
+ */
+function sumList(value: string): number | null {
+  const numbers = value.split(',').map((part) => parseFloat(part)).filter((number) => isFinite(number));
+  return numbers.length > 0 ? numbers.reduce((sum, number) => sum + number, 0) : null;
+}
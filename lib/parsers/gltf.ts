@@ -0,0 +1,307 @@
+import { MeshBuilder, type IndexedMesh } from '@/lib/mesh';
+
+interface GltfNode {
+  name?: string;
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  mode?: number;
+}
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+interface GltfDocument {
+  scene?: number;
+  scenes?: Array<{ nodes?: number[] }>;
+  nodes?: GltfNode[];
+  meshes?: Array<{ name?: string; primitives: GltfPrimitive[] }>;
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: Array<{ uri?: string; byteLength: number }>;
+  extensionsRequired?: string[];
+}
+
+// 4×4 column-major matrices, as stored in glTF
+type Matrix = number[];
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+const COMPONENT_COUNTS: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+
+const IDENTITY: Matrix = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+// glTF is Y-up in meters; models here are Z-up in millimeters
+const GLTF_TO_MESH: Matrix = [1000, 0, 0, 0, 0, 0, 1000, 0, 0, -1000, 0, 0, 0, 0, 0, 1];
+
+/**
+ * Parse a binary glTF (.glb) file into an indexed mesh
+ */
+export function parseGLB(data: ArrayBuffer): IndexedMesh {
+  const view = new DataView(data);
+  if (data.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error('Not a GLB file');
+  }
+  if (view.getUint32(4, true) !== 2) {
+    throw new Error(`Unsupported glTF version ${view.getUint32(4, true)}`);
+  }
+
+  let json: GltfDocument | null = null;
+  let binary: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    const chunk = new Uint8Array(data, offset + 8, Math.min(length, data.byteLength - offset - 8));
+    if (type === CHUNK_JSON) {
+      json = JSON.parse(new TextDecoder().decode(chunk));
+    } else if (type === CHUNK_BIN && !binary) {
+      binary = chunk;
+    }
+    offset += 8 + length;
+  }
+
+  if (!json) {
+    throw new Error('GLB file has no JSON chunk');
+  }
+  return parseGltfDocument(json, (index, uri) => {
+    if (index === 0 && !uri && binary) return binary;
+    return decodeDataUri(uri);
+  });
+}
+
+/**
+ * Parse a JSON glTF (.gltf) file into an indexed mesh
+ * Only embedded (data URI) buffers can be read from a single upload.
+ */
+export function parseGLTF(text: string): IndexedMesh {
+  return parseGltfDocument(JSON.parse(text), (_, uri) => decodeDataUri(uri));
+}
+
+function decodeDataUri(uri: string | undefined): Uint8Array {
+  const match = uri?.match(/^data:[^,]*?;base64,(.*)$/);
+  if (!match) {
+    throw new Error(
+      uri
+        ? `glTF file references an external buffer (${uri}); upload a .glb instead`
+        : 'glTF buffer has no data'
+    );
+  }
+  const decoded = atob(match[1]);
+  const bytes = new Uint8Array(decoded.length);
+  for (let i = 0; i < decoded.length; i++) {
+    bytes[i] = decoded.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function parseGltfDocument(gltf: GltfDocument, loadBuffer: (index: number, uri: string | undefined) => Uint8Array): IndexedMesh {
+  const unsupported = (gltf.extensionsRequired ?? []).filter((name) =>
+    name === 'KHR_draco_mesh_compression' || name === 'EXT_meshopt_compression'
+  );
+  if (unsupported.length > 0) {
+    throw new Error(`Compressed glTF (${unsupported.join(', ')}) is not supported`);
+  }
+
+  const buffers = (gltf.buffers ?? []).map((buffer, index) => loadBuffer(index, buffer.uri));
+  const nodes = gltf.nodes ?? [];
+  const meshes = gltf.meshes ?? [];
+  const builder = new MeshBuilder();
+
+  const readAccessor = (index: number): Float64Array => {
+    const accessor = gltf.accessors?.[index];
+    if (!accessor) {
+      throw new Error(`glTF accessor ${index} is missing`);
+    }
+    return readAccessorValues(gltf, buffers, accessor);
+  };
+
+  const addMesh = (meshIndex: number, name: string, transform: Matrix) => {
+    const mesh = meshes[meshIndex];
+    if (!mesh) return;
+    builder.beginObject(name);
+
+    // Mirroring transforms turn the faces inside out; swap the winding back
+    const mirrored = determinant3(transform) < 0;
+
+    for (const primitive of mesh.primitives) {
+      const mode = primitive.mode ?? MODE_TRIANGLES;
+      if (primitive.attributes.POSITION === undefined ||
+          (mode !== MODE_TRIANGLES && mode !== MODE_TRIANGLE_STRIP && mode !== MODE_TRIANGLE_FAN)) {
+        continue;
+      }
+
+      const positions = readAccessor(primitive.attributes.POSITION);
+      const vertexIds: number[] = [];
+      for (let i = 0; i < positions.length; i += 3) {
+        const [x, y, z] = transformPoint(transform, positions[i], positions[i + 1], positions[i + 2]);
+        vertexIds.push(builder.weldVertex(x, y, z));
+      }
+
+      const indices = primitive.indices !== undefined
+        ? readAccessor(primitive.indices)
+        : Float64Array.from(vertexIds, (_, i) => i);
+
+      const addTriangle = (a: number, b: number, c: number) => {
+        const ids = [vertexIds[indices[a]], vertexIds[indices[b]], vertexIds[indices[c]]];
+        if (ids.some((id) => id === undefined)) return;
+        if (mirrored) builder.addTriangle(ids[0], ids[2], ids[1]);
+        else builder.addTriangle(ids[0], ids[1], ids[2]);
+      };
+
+      if (mode === MODE_TRIANGLES) {
+        for (let i = 0; i + 2 < indices.length; i += 3) addTriangle(i, i + 1, i + 2);
+      } else if (mode === MODE_TRIANGLE_STRIP) {
+        for (let i = 0; i + 2 < indices.length; i++) {
+          if (i % 2 === 0) addTriangle(i, i + 1, i + 2);
+          else addTriangle(i + 1, i, i + 2);
+        }
+      } else {
+        for (let i = 1; i + 1 < indices.length; i++) addTriangle(0, i, i + 1);
+      }
+    }
+  };
+
+  const visit = (nodeIndex: number, parent: Matrix, depth: number) => {
+    const node = nodes[nodeIndex];
+    if (!node || depth > 64) return; // Guard against cyclic node graphs
+    const transform = multiply(parent, nodeMatrix(node));
+    if (node.mesh !== undefined) {
+      addMesh(node.mesh, node.name || meshes[node.mesh]?.name || `Mesh ${node.mesh + 1}`, transform);
+    }
+    node.children?.forEach((child) => visit(child, transform, depth + 1));
+  };
+
+  const scene = gltf.scenes?.[gltf.scene ?? 0];
+  if (scene) {
+    scene.nodes?.forEach((node) => visit(node, GLTF_TO_MESH, 0));
+  } else if (nodes.length > 0) {
+    // No scene: render every root node
+    const children = new Set(nodes.flatMap((node) => node.children ?? []));
+    nodes.forEach((_, index) => {
+      if (!children.has(index)) visit(index, GLTF_TO_MESH, 0);
+    });
+  } else {
+    meshes.forEach((mesh, index) => addMesh(index, mesh.name || `Mesh ${index + 1}`, GLTF_TO_MESH));
+  }
+
+  const result = builder.build('meter');
+  if (result.triangles.length === 0) {
+    throw new Error('No triangles found in glTF file');
+  }
+
+  console.log(`glTF file: ${result.objects.length} mesh(es), ${result.triangles.length / 3} triangles`);
+  return result;
+}
+
+/**
+ * Read an accessor into plain numbers, honouring byte stride and normalization
+ */
+function readAccessorValues(gltf: GltfDocument, buffers: Uint8Array[], accessor: GltfAccessor): Float64Array {
+  const components = COMPONENT_COUNTS[accessor.type] ?? 1;
+  const values = new Float64Array(accessor.count * components);
+  if (accessor.bufferView === undefined) {
+    return values; // All zeros per spec (sparse data is not applied)
+  }
+
+  const bufferView = gltf.bufferViews?.[accessor.bufferView];
+  const buffer = bufferView ? buffers[bufferView.buffer] : undefined;
+  if (!bufferView || !buffer) {
+    throw new Error(`glTF buffer view ${accessor.bufferView} is missing`);
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset + (bufferView.byteOffset ?? 0), bufferView.byteLength);
+  const componentSize = accessor.componentType === 5126 || accessor.componentType === 5125 ? 4
+    : accessor.componentType === 5122 || accessor.componentType === 5123 ? 2 : 1;
+  const stride = bufferView.byteStride || componentSize * components;
+  const start = accessor.byteOffset ?? 0;
+
+  for (let i = 0; i < accessor.count; i++) {
+    for (let c = 0; c < components; c++) {
+      const offset = start + i * stride + c * componentSize;
+      let value: number;
+      switch (accessor.componentType) {
+        case 5120: value = view.getInt8(offset); if (accessor.normalized) value = Math.max(value / 127, -1); break;
+        case 5121: value = view.getUint8(offset); if (accessor.normalized) value /= 255; break;
+        case 5122: value = view.getInt16(offset, true); if (accessor.normalized) value = Math.max(value / 32767, -1); break;
+        case 5123: value = view.getUint16(offset, true); if (accessor.normalized) value /= 65535; break;
+        case 5125: value = view.getUint32(offset, true); break;
+        case 5126: value = view.getFloat32(offset, true); break;
+        default: throw new Error(`Unsupported glTF component type ${accessor.componentType}`);
+      }
+      values[i * components + c] = value;
+    }
+  }
+  return values;
+}
+
+function nodeMatrix(node: GltfNode): Matrix {
+  if (node.matrix?.length === 16) {
+    return node.matrix;
+  }
+
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [qx, qy, qz, qw] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+
+  // Rotation from the unit quaternion, columns scaled, then translated
+  return [
+    (1 - 2 * (qy * qy + qz * qz)) * sx, 2 * (qx * qy + qz * qw) * sx, 2 * (qx * qz - qy * qw) * sx, 0,
+    2 * (qx * qy - qz * qw) * sy, (1 - 2 * (qx * qx + qz * qz)) * sy, 2 * (qy * qz + qx * qw) * sy, 0,
+    2 * (qx * qz + qy * qw) * sz, 2 * (qy * qz - qx * qw) * sz, (1 - 2 * (qx * qx + qy * qy)) * sz, 0,
+    tx, ty, tz, 1,
+  ];
+}
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  const result = new Array<number>(16).fill(0);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      for (let k = 0; k < 4; k++) {
+        result[column * 4 + row] += a[k * 4 + row] * b[column * 4 + k];
+      }
+    }
+  }
+  return result;
+}
+
+function transformPoint(m: Matrix, x: number, y: number, z: number): [number, number, number] {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14],
+  ];
+}
+
+function determinant3(m: Matrix): number {
+  return m[0] * (m[5] * m[10] - m[9] * m[6]) -
+    m[4] * (m[1] * m[10] - m[9] * m[2]) +
+    m[8] * (m[1] * m[6] - m[5] * m[2]);
+}
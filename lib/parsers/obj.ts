@@ -0,0 +1,54 @@
+import { MeshBuilder, type IndexedMesh } from '@/lib/mesh';
+
+/**
+ * Parse Wavefront OBJ text into an indexed mesh
+ * Polygon faces are fan-triangulated; `o` and `g` statements start new objects
+ */
+export function parseOBJ(text: string): IndexedMesh {
+  const lines = text.split('\n');
+  const builder = new MeshBuilder(Math.ceil(text.length / 60));
+  let vertexCount = 0;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('v ')) {
+      const parts = trimmed.split(/\s+/);
+      if (parts.length >= 4) {
+        const x = parseFloat(parts[1]);
+        const y = parseFloat(parts[2]);
+        const z = parseFloat(parts[3]);
+
+        // Keep invalid vertices as placeholders so face indices stay aligned
+        builder.addVertex(isNaN(x) ? 0 : x, isNaN(y) ? 0 : y, isNaN(z) ? 0 : z);
+        vertexCount++;
+      }
+    } else if (trimmed.startsWith('o ') || trimmed.startsWith('g ')) {
+      builder.beginObject(trimmed.slice(2).trim() || 'Object');
+    } else if (trimmed.startsWith('f ')) {
+      // Parse face indices (OBJ is 1-indexed, negative indices are relative to the end)
+      const parts = trimmed.split(/\s+/);
+      const face: number[] = [];
+      for (let i = 1; i < parts.length; i++) {
+        const rawIndex = parseInt(parts[i].split('/')[0]);
+        if (isNaN(rawIndex) || rawIndex === 0) continue;
+        const vertexIndex = rawIndex > 0 ? rawIndex - 1 : vertexCount + rawIndex;
+        if (vertexIndex >= 0 && vertexIndex < vertexCount) {
+          face.push(vertexIndex);
+        }
+      }
+
+      // Triangulate polygon faces (fan triangulation)
+      for (let i = 1; i < face.length - 1; i++) {
+        builder.addTriangle(face[0], face[i], face[i + 1]);
+      }
+    }
+  }
+
+  if (vertexCount === 0) {
+    throw new Error("No vertices found in OBJ file");
+  }
+
+  console.log(`OBJ file: Found ${vertexCount} vertices, ${builder.triangleCount} triangles`);
+  return builder.build('unknown');
+}
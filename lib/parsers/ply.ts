@@ -0,0 +1,195 @@
+import { MeshBuilder, type IndexedMesh } from '@/lib/mesh';
+
+type PlyScalarType = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'float64';
+
+interface PlyProperty {
+  name: string;
+  type: PlyScalarType;
+  countType?: PlyScalarType; // set for list properties
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+// Both the PLY 1.0 names and the sized aliases are used in the wild
+const TYPE_ALIASES: Record<string, PlyScalarType> = {
+  char: 'int8', int8: 'int8',
+  uchar: 'uint8', uint8: 'uint8',
+  short: 'int16', int16: 'int16',
+  ushort: 'uint16', uint16: 'uint16',
+  int: 'int32', int32: 'int32',
+  uint: 'uint32', uint32: 'uint32',
+  float: 'float32', float32: 'float32',
+  double: 'float64', float64: 'float64',
+};
+
+const TYPE_SIZES: Record<PlyScalarType, number> = {
+  int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, float32: 4, float64: 8,
+};
+
+/**
+ * Parse a PLY file (ASCII or binary, either byte order) into an indexed mesh
+ * Polygon faces are fan-triangulated; vertices are welded so per-face vertex
+ * copies still share edges
+ */
+export function parsePLY(data: ArrayBuffer): IndexedMesh {
+  const bytes = new Uint8Array(data);
+  const header = readHeader(bytes);
+
+  const vertexElement = header.elements.find((element) => element.name === 'vertex');
+  if (!vertexElement || vertexElement.count === 0) {
+    throw new Error('No vertices found in PLY file');
+  }
+
+  const builder = new MeshBuilder(header.elements.find((element) => element.name === 'face')?.count ?? 1024);
+  const vertexIds = new Uint32Array(vertexElement.count);
+  let vertexCount = 0;
+
+  const axes = ['x', 'y', 'z'].map((axis) => vertexElement.properties.findIndex((property) => property.name === axis));
+  if (axes.some((index) => index === -1)) {
+    throw new Error('PLY vertices have no x/y/z properties');
+  }
+
+  const onVertex = (values: number[]) => {
+    const x = values[axes[0]], y = values[axes[1]], z = values[axes[2]];
+    vertexIds[vertexCount++] = builder.weldVertex(isFinite(x) ? x : 0, isFinite(y) ? y : 0, isFinite(z) ? z : 0);
+  };
+
+  const onFace = (indices: number[]) => {
+    const face = indices.filter((index) => index >= 0 && index < vertexCount).map((index) => vertexIds[index]);
+    for (let i = 1; i < face.length - 1; i++) {
+      builder.addTriangle(face[0], face[i], face[i + 1]);
+    }
+  };
+
+  const reader = header.format === 'ascii'
+    ? createAsciiReader(bytes, header.bodyStart)
+    : createBinaryReader(data, header.bodyStart, header.format === 'binary_little_endian');
+
+  for (const element of header.elements) {
+    const faceListIndex = element.name === 'face'
+      ? element.properties.findIndex((property) => property.countType && /^vertex_ind(ex|ices)$/.test(property.name))
+      : -1;
+
+    for (let i = 0; i < element.count; i++) {
+      const values: number[] = [];
+      let faceIndices: number[] | null = null;
+
+      for (let p = 0; p < element.properties.length; p++) {
+        const property = element.properties[p];
+        if (property.countType) {
+          const count = reader.read(property.countType);
+          const list: number[] = [];
+          for (let j = 0; j < count; j++) list.push(reader.read(property.type));
+          if (p === faceListIndex) faceIndices = list;
+          values.push(NaN);
+        } else {
+          values.push(reader.read(property.type));
+        }
+      }
+
+      if (element === vertexElement) onVertex(values);
+      else if (faceIndices) onFace(faceIndices);
+    }
+  }
+
+  console.log(`PLY file (${header.format}): ${vertexCount} vertices, ${builder.triangleCount} triangles`);
+  return builder.build('unknown');
+}
+
+function readHeader(bytes: Uint8Array): { format: string; elements: PlyElement[]; bodyStart: number } {
+  // The header is ASCII and ends with an "end_header" line
+  const preview = new TextDecoder('latin1').decode(bytes.subarray(0, Math.min(bytes.length, 65536)));
+  if (!preview.startsWith('ply')) {
+    throw new Error('Not a PLY file');
+  }
+  const marker = preview.indexOf('end_header');
+  if (marker === -1) {
+    throw new Error('PLY header is not terminated');
+  }
+  let bodyStart = preview.indexOf('\n', marker);
+  bodyStart = bodyStart === -1 ? preview.length : bodyStart + 1;
+
+  let format = '';
+  const elements: PlyElement[] = [];
+
+  for (const line of preview.slice(0, marker).split(/\r?\n/)) {
+    const parts = line.trim().split(/\s+/);
+    switch (parts[0]) {
+      case 'format':
+        format = parts[1];
+        break;
+      case 'element':
+        elements.push({ name: parts[1], count: parseInt(parts[2]) || 0, properties: [] });
+        break;
+      case 'property': {
+        const element = elements[elements.length - 1];
+        if (!element) break;
+        if (parts[1] === 'list') {
+          element.properties.push({ name: parts[4], type: scalarType(parts[3]), countType: scalarType(parts[2]) });
+        } else {
+          element.properties.push({ name: parts[2], type: scalarType(parts[1]) });
+        }
+        break;
+      }
+    }
+  }
+
+  if (!['ascii', 'binary_little_endian', 'binary_big_endian'].includes(format)) {
+    throw new Error(`Unsupported PLY format: ${format || 'missing'}`);
+  }
+  return { format, elements, bodyStart };
+}
+
+function scalarType(name: string): PlyScalarType {
+  const type = TYPE_ALIASES[name];
+  if (!type) {
+    throw new Error(`Unsupported PLY property type: ${name}`);
+  }
+  return type;
+}
+
+interface PlyReader {
+  read(type: PlyScalarType): number;
+}
+
+function createAsciiReader(bytes: Uint8Array, start: number): PlyReader {
+  const tokens = new TextDecoder().decode(bytes.subarray(start)).split(/\s+/).filter(Boolean);
+  let index = 0;
+  return {
+    read: () => {
+      if (index >= tokens.length) {
+        throw new Error('Unexpected end of PLY data');
+      }
+      return parseFloat(tokens[index++]);
+    },
+  };
+}
+
+function createBinaryReader(data: ArrayBuffer, start: number, littleEndian: boolean): PlyReader {
+  const view = new DataView(data);
+  let offset = start;
+  return {
+    read: (type) => {
+      if (offset + TYPE_SIZES[type] > view.byteLength) {
+        throw new Error('Unexpected end of PLY data');
+      }
+      let value: number;
+      switch (type) {
+        case 'int8': value = view.getInt8(offset); break;
+        case 'uint8': value = view.getUint8(offset); break;
+        case 'int16': value = view.getInt16(offset, littleEndian); break;
+        case 'uint16': value = view.getUint16(offset, littleEndian); break;
+        case 'int32': value = view.getInt32(offset, littleEndian); break;
+        case 'uint32': value = view.getUint32(offset, littleEndian); break;
+        case 'float32': value = view.getFloat32(offset, littleEndian); break;
+        case 'float64': value = view.getFloat64(offset, littleEndian); break;
+      }
+      offset += TYPE_SIZES[type];
+      return value;
+    },
+  };
+}
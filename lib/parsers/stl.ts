@@ -0,0 +1,207 @@
+import { MeshBuilder, calculateTetrahedronVolume, type IndexedMesh } from '@/lib/mesh';
+
+// Binary STLs larger than this are parsed from a stream rather than read into memory whole
+export const STREAMING_STL_THRESHOLD = 32 * 1024 * 1024; // bytes
+
+// Binary STL layout: 80-byte header, uint32 triangle count, then 50 bytes per
+// triangle (normal and three vertices as float32, 2-byte attribute)
+const HEADER_BYTES = 84;
+const TRIANGLE_BYTES = 50;
+
+/**
+ * A binary STL parsed from a stream
+ */
+export interface StreamedSTL {
+  mesh: IndexedMesh;
+  volume: number; // cm³, summed triangle by triangle while streaming
+}
+
+/**
+ * Parse STL file data (binary or ASCII) into an indexed mesh
+ * STL carries no units, so coordinates are taken as millimeters
+ */
+export function parseSTL(data: ArrayBuffer): IndexedMesh {
+  const bytes = new Uint8Array(data);
+
+  if (isBinarySTL(bytes)) {
+    return parseBinarySTL(bytes);
+  }
+  return parseASCIISTL(bytes);
+}
+
+/**
+ * Detect binary STL: the triangle count in the header must match the file size.
+ * Files that don't match are treated as ASCII only when they look like one,
+ * since some exporters write "solid" into binary headers
+ */
+function isBinarySTL(bytes: Uint8Array): boolean {
+  if (bytes.length >= HEADER_BYTES) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const numTriangles = view.getUint32(80, true);
+    if (HEADER_BYTES + numTriangles * TRIANGLE_BYTES === bytes.length) {
+      return true;
+    }
+  }
+
+  const head = new TextDecoder().decode(bytes.subarray(0, Math.min(bytes.length, 512))).trimStart().toLowerCase();
+  return !(head.startsWith('solid') && head.includes('facet'));
+}
+
+/**
+ * Whether a file is a binary STL large enough to parse with `parseSTLStream`
+ * Only the header is read.
+ */
+export async function isStreamableSTL(file: Blob): Promise<boolean> {
+  if (file.size < STREAMING_STL_THRESHOLD) {
+    return false;
+  }
+  const header = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  return HEADER_BYTES + header.getUint32(80, true) * TRIANGLE_BYTES === file.size;
+}
+
+/**
+ * Read the triangle at `offset` into the builder
+ */
+function addBinaryTriangle(view: DataView, offset: number, builder: MeshBuilder): void {
+  const vertex = offset + 12; // Skip normal, winding defines orientation
+  const a = builder.weldVertex(view.getFloat32(vertex, true), view.getFloat32(vertex + 4, true), view.getFloat32(vertex + 8, true));
+  const b = builder.weldVertex(view.getFloat32(vertex + 12, true), view.getFloat32(vertex + 16, true), view.getFloat32(vertex + 20, true));
+  const c = builder.weldVertex(view.getFloat32(vertex + 24, true), view.getFloat32(vertex + 28, true), view.getFloat32(vertex + 32, true));
+  builder.addTriangle(a, b, c);
+}
+
+/**
+ * Parse binary STL file
+ */
+function parseBinarySTL(data: Uint8Array): IndexedMesh {
+  if (data.length < HEADER_BYTES) {
+    throw new Error("Invalid STL file: too short");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const declaredTriangles = view.getUint32(80, true); // little-endian
+  const numTriangles = Math.min(declaredTriangles, Math.floor((data.length - HEADER_BYTES) / TRIANGLE_BYTES));
+
+  if (numTriangles < declaredTriangles) {
+    console.warn(`STL declares ${declaredTriangles} triangles but only ${numTriangles} fit in the file`);
+  }
+
+  const builder = new MeshBuilder(numTriangles);
+  for (let i = 0; i < numTriangles; i++) {
+    addBinaryTriangle(view, HEADER_BYTES + i * TRIANGLE_BYTES, builder);
+  }
+
+  console.log(`Binary STL: ${numTriangles} triangles`);
+  return builder.build('unknown');
+}
+
+/**
+ * Parse a binary STL chunk by chunk from `file.stream()`, so the raw file is
+ * never held in memory whole. The enclosed volume is accumulated as the
+ * triangles arrive.
+ */
+export async function parseSTLStream(file: Blob, onProgress?: (progress: number) => void): Promise<StreamedSTL> {
+  const reader = file.stream().getReader();
+  let builder: MeshBuilder | null = null;
+  let numTriangles = 0;
+  let parsedTriangles = 0;
+  let bytesRead = 0;
+  let carry: Uint8Array = new Uint8Array(0); // bytes of a triangle split across chunks
+
+  // Signed tetrahedra measured from the first vertex, to avoid cancellation
+  // for models far from the origin
+  let reference: { x: number; y: number; z: number } | null = null;
+  let volume = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.length;
+
+    let chunk: Uint8Array = value;
+    if (carry.length > 0) {
+      chunk = new Uint8Array(carry.length + value.length);
+      chunk.set(carry);
+      chunk.set(value, carry.length);
+    }
+    const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    let offset = 0;
+
+    if (!builder) {
+      if (chunk.length < HEADER_BYTES) {
+        carry = chunk;
+        continue;
+      }
+      numTriangles = view.getUint32(80, true);
+      builder = new MeshBuilder(numTriangles);
+      offset = HEADER_BYTES;
+    }
+
+    for (; offset + TRIANGLE_BYTES <= chunk.length && parsedTriangles < numTriangles; offset += TRIANGLE_BYTES) {
+      addBinaryTriangle(view, offset, builder);
+      parsedTriangles++;
+
+      const vertex = offset + 12;
+      const a = { x: view.getFloat32(vertex, true), y: view.getFloat32(vertex + 4, true), z: view.getFloat32(vertex + 8, true) };
+      const b = { x: view.getFloat32(vertex + 12, true), y: view.getFloat32(vertex + 16, true), z: view.getFloat32(vertex + 20, true) };
+      const c = { x: view.getFloat32(vertex + 24, true), y: view.getFloat32(vertex + 28, true), z: view.getFloat32(vertex + 32, true) };
+      reference ??= a;
+      const tetrahedron = calculateTetrahedronVolume(a, b, c, reference);
+      if (isFinite(tetrahedron)) {
+        volume += tetrahedron;
+      }
+    }
+    carry = chunk.slice(offset);
+    onProgress?.(bytesRead / file.size);
+  }
+
+  if (!builder) {
+    throw new Error("Invalid STL file: too short");
+  }
+  if (parsedTriangles < numTriangles) {
+    console.warn(`STL declares ${numTriangles} triangles but only ${parsedTriangles} fit in the file`);
+  }
+
+  console.log(`Binary STL (streamed): ${parsedTriangles} triangles`);
+  return { mesh: builder.build('unknown'), volume: Math.abs(volume) / 1000 };
+}
+
+/**
+ * Parse ASCII STL file
+ */
+function parseASCIISTL(data: Uint8Array): IndexedMesh {
+  const text = new TextDecoder().decode(data);
+  const lines = text.split('\n');
+  const builder = new MeshBuilder(Math.ceil(data.length / 250));
+  let currentVertices: number[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('solid')) {
+      builder.beginObject(trimmed.slice(5).trim() || 'Object 1');
+    } else if (trimmed.startsWith('vertex')) {
+      const parts = trimmed.split(/\s+/);
+      if (parts.length >= 4) {
+        const x = parseFloat(parts[1]);
+        const y = parseFloat(parts[2]);
+        const z = parseFloat(parts[3]);
+
+        if (!isNaN(x) && !isNaN(y) && !isNaN(z)) {
+          currentVertices.push(builder.weldVertex(x, y, z));
+
+          // When we have 3 vertices, emit the triangle
+          if (currentVertices.length === 3) {
+            builder.addTriangle(currentVertices[0], currentVertices[1], currentVertices[2]);
+            currentVertices = [];
+          }
+        }
+      }
+    } else if (trimmed.startsWith('endfacet') || trimmed.startsWith('endsolid')) {
+      currentVertices = [];
+    }
+  }
+
+  console.log(`ASCII STL: ${builder.triangleCount} triangles`);
+  return builder.build('unknown');
+}
@@ -0,0 +1,241 @@
+import JSZip from 'jszip';
+import { forEachXmlTag } from '@/lib/parsers/xml';
+
+/**
+ * Print settings saved in a slicer project 3MF
+ * Values the project does not set are null.
+ */
+export interface SlicerProject {
+  slicer: string; // which slicer wrote the settings
+  layerHeight: number | null; // mm
+  infill: number | null; // percent
+  wallCount: number | null;
+  filamentTypes: string[]; // per extruder, e.g. ["PLA", "PETG"]
+  filamentColors: string[]; // per extruder, "#rrggbb", empty where the project's color is unreadable
+  objectColors: { name: string; color: string }[]; // filament color assigned to each object
+  thumbnail: Blob | null; // PNG preview of the plate
+}
+
+// Relationship type of the package thumbnail in _rels/.rels
+const THUMBNAIL_RELATIONSHIP = 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail';
+
+// Plate previews written by Bambu Studio/OrcaSlicer and PrusaSlicer, in order of preference
+const THUMBNAIL_PATHS = ['Metadata/plate_1.png', 'Metadata/thumbnail.png'];
+
+type SettingsReader = (zip: JSZip, project: SlicerProject) => Promise<void>;
+
+/**
+ * Read the slicer settings, filament assignments and thumbnail of a project 3MF
+ * Returns null for plain 3MF files that carry no slicer settings.
+ */
+export async function read3MFProject(data: ArrayBuffer): Promise<SlicerProject | null> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return null;
+  }
+
+  let readSettings: SettingsReader;
+  if (zip.file('Metadata/Slic3r_PE.config')) {
+    readSettings = readPrusaProject;
+  } else if (zip.file('Metadata/project_settings.config')) {
+    readSettings = readBambuProject;
+  } else if (zip.file(/^Cura\/.*\.cfg$/).length > 0) {
+    readSettings = readCuraProject;
+  } else {
+    return null;
+  }
+
+  const project: SlicerProject = {
+    slicer: '',
+    layerHeight: null,
+    infill: null,
+    wallCount: null,
+    filamentTypes: [],
+    filamentColors: [],
+    objectColors: [],
+    thumbnail: null,
+  };
+
+  try {
+    await readSettings(zip, project);
+  } catch (error) {
+    console.warn('Could not read 3MF project settings:', error);
+    return null;
+  }
+  project.thumbnail = await readThumbnail(zip);
+
+  console.log(`3MF project from ${project.slicer}: layer ${project.layerHeight} mm, infill ${project.infill}%, ${project.filamentTypes.join('/') || 'no filament'}`);
+  return project;
+}
+
+/**
+ * PrusaSlicer: "; key = value" lines in Slic3r_PE.config, per-object
+ * overrides in Slic3r_PE_model.config
+ */
+async function readPrusaProject(zip: JSZip, project: SlicerProject): Promise<void> {
+  project.slicer = 'PrusaSlicer';
+  const config = new Map<string, string>();
+  const text = await zip.file('Metadata/Slic3r_PE.config')!.async('string');
+  for (const line of text.split('\n')) {
+    const match = /^;\s*([\w-]+)\s*=\s*(.*)$/.exec(line.trim());
+    if (match) config.set(match[1], match[2].trim());
+  }
+
+  project.layerHeight = parsePositive(config.get('layer_height'));
+  project.infill = parsePercent(config.get('fill_density'));
+  project.wallCount = parsePositive(config.get('perimeters'));
+  project.filamentTypes = splitList(config.get('filament_type'));
+
+  // An extruder color overrides the filament color when set; unset ones are
+  // empty entries, so the list is split without dropping them
+  const filamentColors = splitList(config.get('filament_colour'));
+  const extruderColors = (config.get('extruder_colour') ?? '').replace(/"/g, '').split(';');
+  project.filamentColors = filamentColors.map((color, index) => normalizeColor(extruderColors[index]) ?? normalizeColor(color) ?? '');
+
+  const modelConfig = zip.file('Metadata/Slic3r_PE_model.config');
+  if (modelConfig) {
+    project.objectColors = readObjectExtruders(await modelConfig.async('string'), project.filamentColors);
+  }
+}
+
+/**
+ * Bambu Studio and OrcaSlicer: JSON in project_settings.config, per-object
+ * settings in model_settings.config
+ */
+async function readBambuProject(zip: JSZip, project: SlicerProject): Promise<void> {
+  const settings = JSON.parse(await zip.file('Metadata/project_settings.config')!.async('string')) as Record<string, unknown>;
+  const value = (key: string): string | undefined => {
+    const entry = settings[key];
+    return Array.isArray(entry) ? (entry[0] as string | undefined) : typeof entry === 'string' ? entry : undefined;
+  };
+  const list = (key: string): string[] => {
+    const entry = settings[key];
+    return Array.isArray(entry) ? entry.map(String) : splitList(typeof entry === 'string' ? entry : undefined);
+  };
+
+  project.slicer = 'Bambu Studio/OrcaSlicer';
+  project.layerHeight = parsePositive(value('layer_height'));
+  project.infill = parsePercent(value('sparse_infill_density'));
+  project.wallCount = parsePositive(value('wall_loops'));
+  project.filamentTypes = list('filament_type');
+  project.filamentColors = list('filament_colour').map((color) => normalizeColor(color) ?? '');
+
+  const modelSettings = zip.file('Metadata/model_settings.config');
+  if (modelSettings) {
+    project.objectColors = readObjectExtruders(await modelSettings.async('string'), project.filamentColors);
+  }
+}
+
+/**
+ * Cura: INI-style stacks in Cura/*.cfg; the material comes from the bundled
+ * .fdm_material profile or the material container name
+ */
+async function readCuraProject(zip: JSZip, project: SlicerProject): Promise<void> {
+  project.slicer = 'Cura';
+  const values = new Map<string, string>();
+  const containers: string[] = [];
+
+  for (const entry of zip.file(/^Cura\/.*\.cfg$/)) {
+    let section = '';
+    for (const line of (await entry.async('string')).split('\n')) {
+      const header = /^\[(.+)\]$/.exec(line.trim());
+      if (header) {
+        section = header[1];
+        continue;
+      }
+      const match = /^([\w.-]+)\s*=\s*(.*)$/.exec(line.trim());
+      if (!match) continue;
+      if (section === 'values' && !values.has(match[1])) values.set(match[1], match[2].trim());
+      if (section === 'containers') containers.push(match[2].trim());
+    }
+  }
+
+  project.layerHeight = parsePositive(values.get('layer_height'));
+  project.infill = parsePercent(values.get('infill_sparse_density'));
+  project.wallCount = parsePositive(values.get('wall_line_count'));
+
+  const [materialProfile] = zip.file(/^Cura\/.*\.fdm_material$/);
+  if (materialProfile) {
+    const xml = await materialProfile.async('string');
+    const material = /<material>([^<]+)<\/material>/.exec(xml)?.[1].trim();
+    const color = normalizeColor(/<color_code>([^<]+)<\/color_code>/.exec(xml)?.[1].trim());
+    if (material) project.filamentTypes = [material];
+    if (color) project.filamentColors = [color];
+  } else {
+    const material = containers.map((id) => /(?:^|_)(pla|petg|abs|asa|tpu|nylon|pc)(?:_|$)/i.exec(id)?.[1]).find(Boolean);
+    if (material) project.filamentTypes = [material.toUpperCase()];
+  }
+}
+
+/**
+ * Map each object's extruder number (1-based, 0 for the default) to its filament color
+ */
+function readObjectExtruders(xml: string, filamentColors: string[]): { name: string; color: string }[] {
+  const objects: { name: string; extruder: number }[] = [];
+  let current: { name: string; extruder: number } | null = null;
+  let depth = 0; // nesting below <object>, so volume/part metadata is skipped
+
+  forEachXmlTag(xml, (tag) => {
+    if (tag.name === 'object') {
+      if (tag.closing) {
+        if (current) objects.push(current);
+        current = null;
+      } else if (!tag.selfClosing) {
+        current = { name: '', extruder: 0 };
+        depth = 0;
+      }
+      return;
+    }
+    if (!current) return;
+    if (tag.name === 'volume' || tag.name === 'part') {
+      if (!tag.selfClosing) depth += tag.closing ? -1 : 1;
+      return;
+    }
+    if (tag.name === 'metadata' && !tag.closing && depth === 0) {
+      const key = tag.attributes.key;
+      if (key === 'name') current.name = tag.attributes.value ?? '';
+      if (key === 'extruder') current.extruder = parseInt(tag.attributes.value ?? '0') || 0;
+    }
+  });
+
+  return objects
+    .filter((object) => object.name)
+    .map((object) => ({ name: object.name, color: filamentColors[Math.max(1, object.extruder) - 1] }))
+    .filter((object): object is { name: string; color: string } => Boolean(object.color));
+}
+
+async function readThumbnail(zip: JSZip): Promise<Blob | null> {
+  const paths = [...THUMBNAIL_PATHS];
+  const rels = zip.file('_rels/.rels');
+  if (rels) {
+    forEachXmlTag(await rels.async('string'), (tag) => {
+      if (tag.name === 'Relationship' && tag.attributes.Type === THUMBNAIL_RELATIONSHIP && tag.attributes.Target) {
+        paths.unshift(tag.attributes.Target.replace(/^\/+/, ''));
+      }
+    });
+  }
+
+  const entry = paths.map((path) => zip.file(path)).find(Boolean);
+  return entry ? new Blob([await entry.async('arraybuffer')], { type: 'image/png' }) : null;
+}
+
+function parsePositive(value: string | undefined): number | null {
+  const number = parseFloat(value ?? '');
+  return number > 0 ? number : null;
+}
+
+function parsePercent(value: string | undefined): number | null {
+  const number = parseFloat(value ?? '');
+  return number >= 0 && number <= 100 ? number : null;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').replace(/"/g, '').split(';').map((item) => item.trim()).filter(Boolean);
+}
+
+function normalizeColor(value: string | undefined): string | null {
+  const match = /^#?([0-9a-f]{6})(?:[0-9a-f]{2})?$/i.exec(value?.trim() ?? '');
+  return match ? `#${match[1].toLowerCase()}` : null;
+}
@@ -0,0 +1,358 @@
+import JSZip from 'jszip';
+import { MeshBuilder, UNIT_TO_MM, type IndexedMesh, type MeshUnit } from '@/lib/mesh';
+import { forEachXmlTag } from '@/lib/parsers/xml';
+import { parseSTL } from '@/lib/parsers/stl';
+import { parseOBJ } from '@/lib/parsers/obj';
+
+/**
+ * 3MF affine transform: 12 numbers "m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32"
+ * applied to row vectors, so x' = x·m00 + y·m10 + z·m20 + m30 and so on
+ */
+type Transform = Float64Array;
+
+interface ObjectComponent {
+  objectId: string;
+  path: string | null; // model part holding the object (production extension), null for the same part
+  transform: Transform;
+}
+
+interface ObjectResource {
+  name: string;
+  type: string;
+  vertices: number[]; // x, y, z triples in model units
+  triangles: number[];
+  components: ObjectComponent[];
+}
+
+interface BuildItem extends ObjectComponent {
+  printable: boolean;
+}
+
+interface ModelDocument {
+  unit: MeshUnit;
+  objects: Map<string, ObjectResource>;
+  items: BuildItem[];
+}
+
+const IDENTITY: Transform = Float64Array.of(1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0);
+
+// Relationship type of the root model part in _rels/.rels
+const MODEL_RELATIONSHIP = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel';
+
+// Object types that end up on the plate; "other" and "surface" are not printed as solids
+const PRINTED_OBJECT_TYPES = ['model', 'solidsupport', 'support'];
+
+// Component references deeper than this are treated as a cycle
+const MAX_COMPONENT_DEPTH = 32;
+
+/**
+ * Parse a 3MF archive into an indexed mesh
+ * Every printable build item becomes one mesh object, with its components
+ * resolved and item and component transforms applied, converted to millimeters.
+ * An object placed on the plate several times appears once per build item.
+ */
+export async function parse3MF(data: ArrayBuffer): Promise<IndexedMesh> {
+  const zip = await JSZip.loadAsync(data);
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir);
+
+  const rootPath = await findRootModelPath(zip, entries);
+
+  if (!rootPath) {
+    // Some tools zip plain STL/OBJ files with a .3mf extension
+    const stlEntry = entries.find((entry) => entry.name.toLowerCase().endsWith('.stl'));
+    if (stlEntry) {
+      return parseSTL(await stlEntry.async('arraybuffer'));
+    }
+    const objEntry = entries.find((entry) => entry.name.toLowerCase().endsWith('.obj'));
+    if (objEntry) {
+      return parseOBJ(await objEntry.async('string'));
+    }
+    throw new Error('No model file found in 3MF archive');
+  }
+
+  // Model parts are parsed on first reference; objects may live in other parts
+  const documents = new Map<string, ModelDocument>();
+  const loadDocument = async (path: string): Promise<ModelDocument | null> => {
+    const key = normalizePath(path);
+    if (!documents.has(key)) {
+      const entry = entries.find((candidate) => candidate.name.toLowerCase() === key);
+      if (!entry) {
+        console.warn(`3MF part not found: ${path}`);
+        return null;
+      }
+      documents.set(key, parseModelDocument(await entry.async('string')));
+    }
+    return documents.get(key)!;
+  };
+
+  const root = (await loadDocument(rootPath))!;
+  const unitFactor = root.unit in UNIT_TO_MM ? UNIT_TO_MM[root.unit as keyof typeof UNIT_TO_MM] : 1;
+  await loadReferencedDocuments(root, rootPath, loadDocument);
+
+  const builder = new MeshBuilder(countTriangles(documents));
+  const nameCounts = new Map<string, number>();
+
+  // Without a build section (not valid 3MF, but written by some tools) every
+  // object of the root part that is not a component of another is placed as-is
+  let items = root.items;
+  if (items.length === 0) {
+    const componentIds = new Set(
+      Array.from(root.objects.values(), (object) => object.components.filter((c) => !c.path).map((c) => c.objectId)).flat()
+    );
+    items = Array.from(root.objects.keys())
+      .filter((objectId) => !componentIds.has(objectId))
+      .map((objectId) => ({ objectId, path: null, transform: IDENTITY, printable: true }));
+  }
+
+  for (const item of items) {
+    if (!item.printable) continue;
+    const itemPath = item.path ?? rootPath;
+    const object = documents.get(normalizePath(itemPath))?.objects.get(item.objectId);
+    if (!object) {
+      console.warn(`3MF build item references missing object ${item.objectId}`);
+      continue;
+    }
+
+    // Number repeated instances so each part can be told apart
+    const count = (nameCounts.get(object.name) ?? 0) + 1;
+    nameCounts.set(object.name, count);
+    builder.beginObject(count > 1 ? `${object.name} (${count})` : object.name);
+
+    addObject(builder, documents, object, itemPath, item.transform, unitFactor, 0);
+  }
+
+  const mesh = builder.build(root.unit);
+  if (mesh.triangles.length === 0) {
+    throw new Error('No mesh elements found in 3MF model file');
+  }
+
+  console.log(`3MF model (${root.unit}): ${mesh.objects.length} part(s), ${mesh.triangles.length / 3} triangles`);
+  return mesh;
+}
+
+/**
+ * Locate the root model part from the package relationships,
+ * falling back to the first .model part
+ */
+async function findRootModelPath(zip: JSZip, entries: JSZip.JSZipObject[]): Promise<string | null> {
+  const rels = zip.file('_rels/.rels');
+  if (rels) {
+    let target: string | null = null;
+    forEachXmlTag(await rels.async('string'), (tag) => {
+      if (!target && tag.name === 'Relationship' && tag.attributes.Type === MODEL_RELATIONSHIP && tag.attributes.Target) {
+        target = tag.attributes.Target;
+      }
+    });
+    if (target) return target;
+  }
+  return entries.find((entry) => entry.name.toLowerCase().endsWith('.model'))?.name ?? null;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\/+/, '').toLowerCase();
+}
+
+/**
+ * Load every model part reachable through component and build item paths
+ */
+async function loadReferencedDocuments(
+  document: ModelDocument,
+  path: string,
+  loadDocument: (path: string) => Promise<ModelDocument | null>,
+  visited = new Set<string>()
+): Promise<void> {
+  visited.add(normalizePath(path));
+  const references = [
+    ...document.items.map((item) => item.path),
+    ...Array.from(document.objects.values(), (object) => object.components.map((component) => component.path)).flat(),
+  ];
+  for (const reference of references) {
+    if (!reference || visited.has(normalizePath(reference))) continue;
+    const referenced = await loadDocument(reference);
+    if (referenced) {
+      await loadReferencedDocuments(referenced, reference, loadDocument, visited);
+    } else {
+      visited.add(normalizePath(reference));
+    }
+  }
+}
+
+function countTriangles(documents: Map<string, ModelDocument>): number {
+  let count = 0;
+  for (const document of documents.values()) {
+    for (const object of document.objects.values()) {
+      count += object.triangles.length / 3;
+    }
+  }
+  return count;
+}
+
+/**
+ * Add an object's mesh and components to the builder with `transform` applied
+ */
+function addObject(
+  builder: MeshBuilder,
+  documents: Map<string, ModelDocument>,
+  object: ObjectResource,
+  path: string,
+  transform: Transform,
+  unitFactor: number,
+  depth: number
+): void {
+  if (depth > MAX_COMPONENT_DEPTH) {
+    console.warn('3MF components are nested too deeply or reference themselves');
+    return;
+  }
+  if (!PRINTED_OBJECT_TYPES.includes(object.type)) return;
+
+  const { vertices, triangles } = object;
+  if (triangles.length > 0) {
+    const base = builder.addVertex(...transformPoint(transform, vertices[0], vertices[1], vertices[2], unitFactor));
+    for (let i = 3; i < vertices.length; i += 3) {
+      builder.addVertex(...transformPoint(transform, vertices[i], vertices[i + 1], vertices[i + 2], unitFactor));
+    }
+
+    // Mirroring turns the surface inside out; swap the winding back
+    const mirrored = determinant(transform) < 0;
+    for (let i = 0; i < triangles.length; i += 3) {
+      if (mirrored) {
+        builder.addTriangle(base + triangles[i], base + triangles[i + 2], base + triangles[i + 1]);
+      } else {
+        builder.addTriangle(base + triangles[i], base + triangles[i + 1], base + triangles[i + 2]);
+      }
+    }
+  }
+
+  for (const component of object.components) {
+    const componentPath = component.path ?? path;
+    const child = documents.get(normalizePath(componentPath))?.objects.get(component.objectId);
+    if (!child) {
+      console.warn(`3MF component references missing object ${component.objectId}`);
+      continue;
+    }
+    // The component transform is applied first, then the parent's
+    addObject(builder, documents, child, componentPath, multiplyTransforms(component.transform, transform), unitFactor, depth + 1);
+  }
+}
+
+function transformPoint(m: Transform, x: number, y: number, z: number, unitFactor: number): [number, number, number] {
+  return [
+    (x * m[0] + y * m[3] + z * m[6] + m[9]) * unitFactor,
+    (x * m[1] + y * m[4] + z * m[7] + m[10]) * unitFactor,
+    (x * m[2] + y * m[5] + z * m[8] + m[11]) * unitFactor,
+  ];
+}
+
+/**
+ * Transform equivalent to applying `first`, then `second`
+ */
+function multiplyTransforms(first: Transform, second: Transform): Transform {
+  const result = new Float64Array(12);
+  for (let row = 0; row < 4; row++) {
+    for (let column = 0; column < 3; column++) {
+      let value = row === 3 ? second[9 + column] : 0;
+      for (let k = 0; k < 3; k++) {
+        value += first[row * 3 + k] * second[k * 3 + column];
+      }
+      result[row * 3 + column] = value;
+    }
+  }
+  return result;
+}
+
+function determinant(m: Transform): number {
+  return m[0] * (m[4] * m[8] - m[5] * m[7])
+    - m[1] * (m[3] * m[8] - m[5] * m[6])
+    + m[2] * (m[3] * m[7] - m[4] * m[6]);
+}
+
+function parseTransform(value: string | undefined): Transform {
+  if (!value) return IDENTITY;
+  const numbers = value.trim().split(/\s+/).map(Number);
+  if (numbers.length !== 12 || numbers.some((number) => !isFinite(number))) {
+    console.warn(`Ignoring malformed 3MF transform: ${value}`);
+    return IDENTITY;
+  }
+  return Float64Array.from(numbers);
+}
+
+/**
+ * Parse the XML of one 3MF model part into its objects and build items
+ */
+function parseModelDocument(text: string): ModelDocument {
+  const document: ModelDocument = { unit: 'millimeter', objects: new Map(), items: [] };
+  let object: ObjectResource | null = null;
+  let inMesh = false;
+  let vertexCount = 0;
+
+  forEachXmlTag(text, (tag) => {
+    switch (tag.name) {
+      case 'model': {
+        if (tag.closing) break;
+        // Default is millimeter per 3MF spec
+        const unit = (tag.attributes.unit || 'millimeter').toLowerCase() as MeshUnit;
+        if (unit in UNIT_TO_MM) document.unit = unit;
+        break;
+      }
+      case 'object':
+        if (tag.closing) {
+          object = null;
+        } else {
+          const id = tag.attributes.id ?? String(document.objects.size + 1);
+          object = {
+            name: tag.attributes.name || `Object ${id}`,
+            type: (tag.attributes.type || 'model').toLowerCase(),
+            vertices: [],
+            triangles: [],
+            components: [],
+          };
+          document.objects.set(id, object);
+          if (tag.selfClosing) object = null;
+        }
+        break;
+      case 'mesh':
+        inMesh = !tag.closing && !tag.selfClosing;
+        vertexCount = 0;
+        break;
+      case 'vertex': {
+        if (!inMesh || !object || tag.closing) break;
+        const x = parseFloat(tag.attributes.x || '0');
+        const y = parseFloat(tag.attributes.y || '0');
+        const z = parseFloat(tag.attributes.z || '0');
+        object.vertices.push(isNaN(x) ? 0 : x, isNaN(y) ? 0 : y, isNaN(z) ? 0 : z);
+        vertexCount++;
+        break;
+      }
+      case 'triangle': {
+        if (!inMesh || !object || tag.closing) break;
+        const v1 = parseInt(tag.attributes.v1 ?? '-1');
+        const v2 = parseInt(tag.attributes.v2 ?? '-1');
+        const v3 = parseInt(tag.attributes.v3 ?? '-1');
+        if (v1 >= 0 && v2 >= 0 && v3 >= 0 &&
+            v1 < vertexCount && v2 < vertexCount && v3 < vertexCount) {
+          object.triangles.push(v1, v2, v3);
+        }
+        break;
+      }
+      case 'component':
+        if (!object || tag.closing || !tag.attributes.objectid) break;
+        object.components.push({
+          objectId: tag.attributes.objectid,
+          path: tag.attributes.path || null,
+          transform: parseTransform(tag.attributes.transform),
+        });
+        break;
+      case 'item':
+        if (tag.closing || !tag.attributes.objectid) break;
+        document.items.push({
+          objectId: tag.attributes.objectid,
+          path: tag.attributes.path || null,
+          transform: parseTransform(tag.attributes.transform),
+          printable: tag.attributes.printable !== '0',
+        });
+        break;
+    }
+  });
+
+  return document;
+}
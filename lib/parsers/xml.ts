@@ -0,0 +1,112 @@
+/**
+ * Minimal streaming XML tag scanner
+ *
+ * DOMParser is not available in Web Workers and builds a full DOM for files
+ * with millions of vertices, so model formats walk tags with this instead.
+ */
+
+export interface XmlTag {
+  name: string; // local name, namespace prefix stripped
+  attributes: Record<string, string>; // attribute local names to decoded values
+  closing: boolean; // </name>
+  selfClosing: boolean; // <name ... />
+  end: number; // index just after '>' in the source text
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeXmlEntities(value: string): string {
+  if (!value.includes('&')) return value;
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(source)) !== null) {
+    const name = match[1].startsWith('xmlns') ? match[1] : localName(match[1]);
+    attributes[name] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Call `visit` for every element tag in document order.
+ * Comments, processing instructions, doctypes and CDATA sections are skipped.
+ */
+export function forEachXmlTag(text: string, visit: (tag: XmlTag) => void): void {
+  let index = 0;
+
+  while ((index = text.indexOf('<', index)) !== -1) {
+    if (text.startsWith('<!--', index)) {
+      const close = text.indexOf('-->', index + 4);
+      if (close === -1) return;
+      index = close + 3;
+      continue;
+    }
+    if (text.startsWith('<![CDATA[', index)) {
+      const close = text.indexOf(']]>', index + 9);
+      if (close === -1) return;
+      index = close + 3;
+      continue;
+    }
+
+    const close = text.indexOf('>', index + 1);
+    if (close === -1) return;
+
+    const next = text.charCodeAt(index + 1);
+    if (next === 63 /* ? */ || next === 33 /* ! */) {
+      index = close + 1;
+      continue;
+    }
+
+    const closing = next === 47; /* / */
+    let body = text.slice(index + (closing ? 2 : 1), close);
+    const selfClosing = body.endsWith('/');
+    if (selfClosing) body = body.slice(0, -1);
+
+    const nameEnd = body.search(/\s/);
+    const rawName = nameEnd === -1 ? body : body.slice(0, nameEnd);
+
+    visit({
+      name: localName(rawName),
+      attributes: nameEnd === -1 || closing ? {} : parseAttributes(body.slice(nameEnd)),
+      closing,
+      selfClosing,
+      end: close + 1,
+    });
+
+    index = close + 1;
+  }
+}
+
+/**
+ * Decoded character data directly after `tag`, up to the next tag
+ * For simple elements such as <x>1.5</x> this is the element's value.
+ */
+export function readXmlText(text: string, tag: XmlTag): string {
+  const next = text.indexOf('<', tag.end);
+  return decodeXmlEntities(text.slice(tag.end, next === -1 ? text.length : next).trim());
+}
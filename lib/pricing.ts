@@ -0,0 +1,100 @@
+/**
+ * Rate cards: the prices the estimator charges, declared per location
+ *
+ * Print time is charged at the hourly rate of the location's printer profile
+ * (`lib/printers`); the card holds everything else.
+ *
+ * Cards are versioned. A new version is added with the date it takes effect
+ * rather than editing the old one, and every quote records the id of the card
+ * that priced it, so an order can always be traced back to its rates.
+ * A card may be authored in another currency than its location charges in;
+ * its prices are then converted with the table in `lib/currency`.
+ */
+
+import type { CurrencyCode } from '@/lib/currency';
+
+export type PricingLocation = 'toronto' | 'sf';
+
+// Currency each location quotes and charges in
+export const LOCATION_CURRENCIES: Record<PricingLocation, CurrencyCode> = {
+  toronto: 'CAD',
+  sf: 'USD',
+};
+
+export interface QuantityDiscount {
+  minQuantity: number; // applies from this many copies up
+  discount: number; // fraction taken off the manufacturing price
+}
+
+export interface DeliveryRates {
+  ratePerHour: number; // charged for the round trip
+  averageSpeedKmh: number; // city driving, accounting for traffic
+  minimumFee: number;
+}
+
+export interface RateCard {
+  id: string; // recorded on every quote, e.g. "toronto-v1"
+  location: PricingLocation;
+  version: number;
+  effectiveFrom: string; // ISO date the card replaces the previous version
+  currency: CurrencyCode; // currency the amounts below are written in
+  speedMultipliers: Record<string, number>; // on the printer's hourly rate, by turnaround ('instant', 'fast', 'regular')
+  minimumCharge: number; // smallest manufacturing price, before discounts
+  quantityDiscounts: QuantityDiscount[];
+  delivery: DeliveryRates | null; // null where the location doesn't deliver
+}
+
+const TORONTO_V1: RateCard = {
+  id: 'toronto-v1',
+  location: 'toronto',
+  version: 1,
+  effectiveFrom: '2025-01-01',
+  currency: 'CAD',
+  speedMultipliers: {
+    instant: 5.0, // 400% premium for same day
+    fast: 2.5, // 150% premium for 1-2 days
+    regular: 1.0, // base rate for 1-5 days
+  },
+  minimumCharge: 10,
+  quantityDiscounts: [
+    { minQuantity: 3, discount: 0.05 },
+    { minQuantity: 5, discount: 0.1 },
+    { minQuantity: 10, discount: 0.15 },
+  ],
+  delivery: { ratePerHour: 25, averageSpeedKmh: 40, minimumFee: 10 },
+};
+
+// San Francisco started on Toronto's print rates, converted to USD; it offers pickup only
+const SF_V1: RateCard = {
+  ...TORONTO_V1,
+  id: 'sf-v1',
+  location: 'sf',
+  delivery: null,
+};
+
+// Every version of every card, kept so old quotes can be looked up
+export const RATE_CARDS: RateCard[] = [TORONTO_V1, SF_V1];
+
+/**
+ * The card in effect at a location on `date`: its latest version that has taken effect
+ */
+export function getActiveRateCard(location: PricingLocation, date = new Date()): RateCard {
+  const today = date.toISOString().slice(0, 10);
+  const active = RATE_CARDS
+    .filter((card) => card.location === location && card.effectiveFrom <= today)
+    .sort((a, b) => b.version - a.version)[0];
+  if (!active) {
+    throw new Error(`No rate card in effect for ${location}`);
+  }
+  return active;
+}
+
+/**
+ * Fraction off for ordering `quantity` copies, from the largest tier reached
+ */
+export function getQuantityDiscount(card: RateCard, quantity: number): number {
+  return card.quantityDiscounts.reduce(
+    (discount, tier) => (quantity >= tier.minQuantity ? Math.max(discount, tier.discount) : discount),
+    0
+  );
+}
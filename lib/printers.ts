@@ -0,0 +1,75 @@
+/**
+ * Printer profiles: the machines each location prints on, their build volume,
+ * extrusion setup, motion limits and hourly rate
+ *
+ * The estimator slices, times and nests parts for the profile of the ordering
+ * location, and every quote records the id of the profile it was timed on.
+ */
+
+import type { BuildVolume } from '@/lib/build-volume';
+import type { PricingLocation } from '@/lib/pricing';
+
+export interface PrintSpeeds {
+  perimeters: number; // mm/s
+  infill: number; // mm/s, solid skin and sparse infill
+  firstLayer: number; // mm/s, everything on the first layer, for adhesion
+  support: number; // mm/s
+}
+
+export interface PrintAccelerations {
+  perimeters: number; // mm/s²
+  infill: number; // mm/s²
+  firstLayer: number; // mm/s²
+  support: number; // mm/s²
+}
+
+export interface PrinterProfile {
+  id: string; // recorded on every quote, e.g. "corexy-400"
+  name: string;
+  buildVolume: BuildVolume;
+  nozzleDiameter: number; // mm
+  lineWidth: number; // mm, extruded line width
+  filamentDiameter: number; // mm
+  perimeters: number; // wall perimeters
+  topBottomLayers: number; // solid layers under top and over bottom surfaces
+  speeds: PrintSpeeds;
+  accelerations: PrintAccelerations;
+  hourlyRate: number; // CAD per hour of print time before speed multipliers, converted to the rate card's currency
+}
+
+const COREXY_400: PrinterProfile = {
+  id: 'corexy-400',
+  name: 'Large-format CoreXY (400 mm)',
+  buildVolume: { width: 400, depth: 400, height: 400 },
+  nozzleDiameter: 0.4,
+  lineWidth: 0.4,
+  filamentDiameter: 1.75,
+  perimeters: 2,
+  topBottomLayers: 3,
+  // Conservative averages rather than the machine's peak speeds
+  speeds: { perimeters: 50, infill: 60, firstLayer: 20, support: 60 },
+  accelerations: { perimeters: 2000, infill: 3000, firstLayer: 500, support: 3000 },
+  hourlyRate: 15,
+};
+
+export const PRINTER_PROFILES: PrinterProfile[] = [COREXY_400];
+
+// Profile each location quotes on; both run the same machines today
+export const LOCATION_PRINTERS: Record<PricingLocation, string> = {
+  toronto: COREXY_400.id,
+  sf: COREXY_400.id,
+};
+
+// Profile for estimates and views that aren't tied to a location, Toronto's
+export const DEFAULT_PRINTER = COREXY_400;
+
+/**
+ * Catalog entry of the profile a location quotes on
+ */
+export function getLocationPrinter(location: PricingLocation): PrinterProfile {
+  const profile = PRINTER_PROFILES.find((printer) => printer.id === LOCATION_PRINTERS[location]);
+  if (!profile) {
+    throw new Error(`No printer profile for ${location}`);
+  }
+  return profile;
+}
@@ -0,0 +1,223 @@
+/**
+ * Planar layer slicing of an indexed mesh
+ *
+ * Each layer is cut at its mid-height. Triangle/plane intersections are
+ * oriented from the triangle normal and chained into closed contours through
+ * the shared mesh edges, so outer walls come out counter-clockwise (positive
+ * area) and holes clockwise (negative area).
+ */
+
+import { computeMeshBounds, type IndexedMesh } from '@/lib/mesh';
+
+export interface SliceContour {
+  area: number; // signed mm², negative for holes
+  length: number; // mm
+  closed: boolean; // false when the chain ran into an open or non-manifold edge
+}
+
+export interface SliceLayer {
+  z: number; // cut height in mm, measured from the bottom of the part
+  area: number; // cross-section area in mm²
+  perimeter: number; // total contour length in mm
+  contours: SliceContour[];
+}
+
+export interface SliceResult {
+  layerHeight: number; // mm
+  height: number; // part height in mm
+  layers: SliceLayer[];
+}
+
+interface Segment {
+  startEdge: number;
+  endEdge: number;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Slice the mesh into layers of `layerHeight` mm
+ * `onProgress` receives the completed fraction (0-1) as layers are cut
+ */
+export function sliceMesh(
+  mesh: IndexedMesh,
+  layerHeight: number,
+  onProgress?: (progress: number) => void
+): SliceResult {
+  const { vertices, triangles } = mesh;
+  const vertexCount = vertices.length / 3;
+  const triangleCount = triangles.length / 3;
+  const bounds = computeMeshBounds(mesh);
+  const height = Math.max(0, bounds.max.z - bounds.min.z);
+  const layerCount = Math.max(1, Math.ceil(height / layerHeight));
+
+  // Sort triangles by their lowest point so each layer only visits the
+  // triangles that can cross it
+  const triangleMinZ = new Float64Array(triangleCount);
+  const triangleMaxZ = new Float64Array(triangleCount);
+  for (let t = 0; t < triangleCount; t++) {
+    const za = vertices[triangles[t * 3] * 3 + 2];
+    const zb = vertices[triangles[t * 3 + 1] * 3 + 2];
+    const zc = vertices[triangles[t * 3 + 2] * 3 + 2];
+    triangleMinZ[t] = Math.min(za, zb, zc);
+    triangleMaxZ[t] = Math.max(za, zb, zc);
+  }
+  const order = Array.from({ length: triangleCount }, (_, t) => t).sort((a, b) => triangleMinZ[a] - triangleMinZ[b]);
+
+  const layers: SliceLayer[] = [];
+  let active: number[] = [];
+  let next = 0;
+
+  for (let layer = 0; layer < layerCount; layer++) {
+    // Cut through the middle of the layer; the last layer may be partial
+    const layerBottom = layer * layerHeight;
+    const layerTop = Math.min(height, layerBottom + layerHeight);
+    const z = bounds.min.z + (layerBottom + layerTop) / 2;
+
+    while (next < order.length && triangleMinZ[order[next]] <= z) {
+      active.push(order[next++]);
+    }
+    active = active.filter((t) => triangleMaxZ[t] >= z);
+
+    const segments: Segment[] = [];
+    for (const t of active) {
+      const segment = intersectTriangle(mesh, t, z, vertexCount);
+      if (segment) segments.push(segment);
+    }
+
+    const contours = chainSegments(segments);
+    const signedArea = contours.reduce((sum, contour) => sum + contour.area, 0);
+
+    layers.push({
+      z: z - bounds.min.z,
+      area: Math.abs(signedArea),
+      perimeter: contours.reduce((sum, contour) => sum + contour.length, 0),
+      contours,
+    });
+
+    if (onProgress && layer % 64 === 63) {
+      onProgress((layer + 1) / layerCount);
+    }
+  }
+
+  return { layerHeight, height, layers };
+}
+
+/**
+ * Intersect triangle `t` with the plane at height `z`
+ * Vertices exactly on the plane count as below it, so a crossing triangle
+ * always has exactly two crossing edges
+ */
+function intersectTriangle(mesh: IndexedMesh, t: number, z: number, vertexCount: number): Segment | null {
+  const { vertices, triangles } = mesh;
+  const ids = [triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]];
+  const points: Array<{ x: number; y: number; edge: number }> = [];
+
+  for (let i = 0; i < 3; i++) {
+    const a = ids[i];
+    const b = ids[(i + 1) % 3];
+    const za = vertices[a * 3 + 2];
+    const zb = vertices[b * 3 + 2];
+    if ((za > z) === (zb > z)) continue;
+
+    const ratio = (z - za) / (zb - za);
+    points.push({
+      x: vertices[a * 3] + (vertices[b * 3] - vertices[a * 3]) * ratio,
+      y: vertices[a * 3 + 1] + (vertices[b * 3 + 1] - vertices[a * 3 + 1]) * ratio,
+      edge: Math.min(a, b) * vertexCount + Math.max(a, b),
+    });
+  }
+
+  if (points.length !== 2) return null;
+
+  // Orient the segment along (up × normal) so solid material is on its left
+  const ax = vertices[ids[0] * 3], ay = vertices[ids[0] * 3 + 1], az = vertices[ids[0] * 3 + 2];
+  const e1x = vertices[ids[1] * 3] - ax, e1y = vertices[ids[1] * 3 + 1] - ay, e1z = vertices[ids[1] * 3 + 2] - az;
+  const e2x = vertices[ids[2] * 3] - ax, e2y = vertices[ids[2] * 3 + 1] - ay, e2z = vertices[ids[2] * 3 + 2] - az;
+  const normalX = e1y * e2z - e1z * e2y;
+  const normalY = e1z * e2x - e1x * e2z;
+  // up × normal = (-normalY, normalX, 0)
+  const dx = points[1].x - points[0].x;
+  const dy = points[1].y - points[0].y;
+  const [start, end] = dx * -normalY + dy * normalX >= 0 ? [points[0], points[1]] : [points[1], points[0]];
+
+  return { startEdge: start.edge, endEdge: end.edge, x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+}
+
+/**
+ * Join segments that share mesh edges into contours
+ */
+function chainSegments(segments: Segment[]): SliceContour[] {
+  const byStart = new Map<number, number>();
+  segments.forEach((segment, index) => byStart.set(segment.startEdge, index));
+
+  const used = new Uint8Array(segments.length);
+  const contours: SliceContour[] = [];
+
+  // Start chains from segments nothing leads into, so open chains are walked
+  // whole; everything left afterwards is part of a closed loop
+  const hasPredecessor = new Uint8Array(segments.length);
+  segments.forEach((segment) => {
+    const successor = byStart.get(segment.endEdge);
+    if (successor !== undefined) hasPredecessor[successor] = 1;
+  });
+
+  const walk = (first: number) => {
+    let area = 0;
+    let length = 0;
+    let closed = false;
+    let last = first;
+    let current: number | undefined = first;
+
+    while (current !== undefined && !used[current]) {
+      used[current] = 1;
+      last = current;
+      const segment: Segment = segments[current];
+      area += segment.x1 * segment.y2 - segment.x2 * segment.y1;
+      length += Math.hypot(segment.x2 - segment.x1, segment.y2 - segment.y1);
+      current = byStart.get(segment.endEdge);
+      if (current === first) closed = true;
+    }
+
+    // Close open chains with a straight edge back to the start
+    if (!closed) {
+      const head = segments[first];
+      const tail = segments[last];
+      area += tail.x2 * head.y1 - head.x1 * tail.y2;
+    }
+
+    contours.push({ area: area / 2, length, closed });
+  };
+
+  segments.forEach((_, index) => {
+    if (!used[index] && !hasPredecessor[index]) walk(index);
+  });
+  segments.forEach((_, index) => {
+    if (!used[index]) walk(index);
+  });
+
+  return contours;
+}
+
+/**
+ * Approximate layers for a part of known volume but unknown shape (a cube),
+ * used when the file could not be parsed into a mesh
+ */
+export function approximateSlices(volumeCm3: number, layerHeight: number): SliceResult {
+  const side = Math.max(0.1, Math.cbrt(volumeCm3 * 1000));
+  const layerCount = Math.max(1, Math.ceil(side / layerHeight));
+  const layers: SliceLayer[] = [];
+
+  for (let layer = 0; layer < layerCount; layer++) {
+    layers.push({
+      z: Math.min(side, (layer + 0.5) * layerHeight),
+      area: side * side,
+      perimeter: side * 4,
+      contours: [{ area: side * side, length: side * 4, closed: true }],
+    });
+  }
+
+  return { layerHeight, height: side, layers };
+}
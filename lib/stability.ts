@@ -0,0 +1,249 @@
+/**
+ * Center of mass and tip-over stability of a part in its print orientation
+ *
+ * The printed part is modeled as solid perimeters around sparse infill, so
+ * its center of mass moves toward the surface as the infill drops. It stands
+ * when that point lies over the convex hull of the faces resting on the bed.
+ */
+
+import { computeMeshBounds, type IndexedMesh } from '@/lib/mesh';
+import { DEFAULT_PRINTER, type PrinterProfile } from '@/lib/printers';
+import { BED_TOLERANCE } from '@/lib/supports';
+
+type Point2 = [number, number];
+type Point3 = { x: number; y: number; z: number };
+
+/**
+ * Mass distribution and bed contact of the unscaled mesh, which don't depend
+ * on infill or scale
+ */
+export interface MassProperties {
+  volume: number; // mm³, signed like the mesh winding
+  volumeCentroid: Point3; // mm, centroid of the solid
+  surfaceArea: number; // mm²
+  surfaceCentroid: Point3; // mm, area-weighted centroid of the faces
+  base: Point2[]; // convex hull of the faces on the bed, counter-clockwise, mm
+  origin: Point3; // center of the footprint at bed height; reports are relative to it
+  height: number; // mm
+}
+
+/**
+ * Stability of the printed part at its ordered scale and infill
+ */
+export interface StabilityReport {
+  centerOfMass: Point3; // mm, x/y from the center of the footprint, z above the bed
+  base: Point2[]; // bed contact polygon, mm from the center of the footprint
+  contactArea: number; // mm² inside the contact polygon
+  baseWidth: number; // mm, narrowest width of the contact polygon
+  height: number; // mm
+  standsOnBase: boolean; // center of mass lies over the contact polygon
+  tipAngle: number; // degrees the part tilts before it tips over, 0 when it doesn't stand
+  slender: boolean; // tall enough for its base that the nozzle may knock it loose
+}
+
+// Parts taller than this many base widths tend to break loose or wobble late in the print
+const MAX_SLENDERNESS = 4;
+
+// Parts that tip over at smaller tilts fall over when bumped
+export const MIN_TIP_ANGLE = 10; // degrees
+
+/**
+ * Measure the mesh in its print orientation (Z up)
+ */
+export function measureMassProperties(mesh: IndexedMesh): MassProperties {
+  const { vertices, triangles } = mesh;
+  const { min, max } = computeMeshBounds(mesh);
+  const origin = { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: min.z };
+
+  let volume = 0, surfaceArea = 0;
+  const volumeMoment = { x: 0, y: 0, z: 0 };
+  const surfaceMoment = { x: 0, y: 0, z: 0 };
+  const contact: Point2[] = [];
+  const bedLimit = min.z + BED_TOLERANCE;
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = triangles[t] * 3, b = triangles[t + 1] * 3, c = triangles[t + 2] * 3;
+    // Relative to the footprint center, which keeps far-off models precise
+    const ax = vertices[a] - origin.x, ay = vertices[a + 1] - origin.y, az = vertices[a + 2] - origin.z;
+    const bx = vertices[b] - origin.x, by = vertices[b + 1] - origin.y, bz = vertices[b + 2] - origin.z;
+    const cx = vertices[c] - origin.x, cy = vertices[c + 1] - origin.y, cz = vertices[c + 2] - origin.z;
+
+    // Signed tetrahedron to the footprint center; its centroid is a quarter of the corners
+    const tetrahedron = (ax * (by * cz - bz * cy) + ay * (bz * cx - bx * cz) + az * (bx * cy - by * cx)) / 6;
+    volume += tetrahedron;
+    volumeMoment.x += (tetrahedron * (ax + bx + cx)) / 4;
+    volumeMoment.y += (tetrahedron * (ay + by + cy)) / 4;
+    volumeMoment.z += (tetrahedron * (az + bz + cz)) / 4;
+
+    const nx = (by - ay) * (cz - az) - (bz - az) * (cy - ay);
+    const ny = (bz - az) * (cx - ax) - (bx - ax) * (cz - az);
+    const nz = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+    const area = Math.hypot(nx, ny, nz) / 2;
+    surfaceArea += area;
+    surfaceMoment.x += (area * (ax + bx + cx)) / 3;
+    surfaceMoment.y += (area * (ay + by + cy)) / 3;
+    surfaceMoment.z += (area * (az + bz + cz)) / 3;
+
+    // Downward faces on the bed, plus lone vertices so parts resting on a point or edge still get a base
+    if (vertices[a + 2] <= bedLimit && vertices[b + 2] <= bedLimit && vertices[c + 2] <= bedLimit && nz < 0) {
+      contact.push([ax, ay], [bx, by], [cx, cy]);
+    }
+  }
+  if (contact.length === 0) {
+    for (let v = 0; v < vertices.length; v += 3) {
+      if (vertices[v + 2] <= bedLimit) contact.push([vertices[v] - origin.x, vertices[v + 1] - origin.y]);
+    }
+  }
+
+  const centroid = (moment: Point3, weight: number): Point3 =>
+    weight !== 0 ? { x: moment.x / weight, y: moment.y / weight, z: moment.z / weight } : { x: 0, y: 0, z: 0 };
+
+  return {
+    volume,
+    volumeCentroid: centroid(volumeMoment, volume),
+    surfaceArea,
+    surfaceCentroid: centroid(surfaceMoment, surfaceArea),
+    base: convexHull(contact),
+    origin,
+    height: max.z - min.z,
+  };
+}
+
+/**
+ * Center of mass and stability at the printed scale and infill percentage
+ */
+export function assessStability(
+  properties: MassProperties,
+  infill: number,
+  scale = 1,
+  printer: PrinterProfile = DEFAULT_PRINTER
+): StabilityReport {
+  const { volume, volumeCentroid, surfaceArea, surfaceCentroid } = properties;
+
+  // Solid perimeters at the surface, about as thick as the top and bottom skin, infill filling the rest of the solid
+  const shellThickness = printer.perimeters * printer.lineWidth; // mm
+  const shellVolume = Math.min(Math.abs(volume), (surfaceArea * shellThickness) / scale) * Math.sign(volume);
+  const fill = Math.min(1, Math.max(0, infill / 100));
+  const mass = shellVolume + (volume - shellVolume) * fill;
+  const centerOf = (axis: keyof Point3) => {
+    if (mass === 0) return volumeCentroid[axis] * scale;
+    const coreMoment = volume * volumeCentroid[axis] - shellVolume * surfaceCentroid[axis];
+    return ((shellVolume * surfaceCentroid[axis] + coreMoment * fill) / mass) * scale;
+  };
+  const centerOfMass = { x: centerOf('x'), y: centerOf('y'), z: centerOf('z') };
+
+  const base = properties.base.map(([x, y]): Point2 => [x * scale, y * scale]);
+  const margin = base.length >= 3 ? distanceInside(base, [centerOfMass.x, centerOfMass.y]) : 0;
+  const baseWidth = minimumWidth(base);
+  const height = properties.height * scale;
+  const standsOnBase = margin > 0;
+
+  return {
+    centerOfMass,
+    base,
+    contactArea: polygonArea(base),
+    baseWidth,
+    height,
+    standsOnBase,
+    tipAngle: standsOnBase ? (Math.atan2(margin, Math.max(0, centerOfMass.z)) * 180) / Math.PI : 0,
+    slender: baseWidth > 0 && height / baseWidth > MAX_SLENDERNESS,
+  };
+}
+
+/**
+ * Readable stability problems, e.g. for the order form warning and the shop email
+ */
+export function describeStabilityIssues(report: StabilityReport): string[] {
+  const issues: string[] = [];
+  if (!report.standsOnBase) {
+    issues.push(
+      report.contactArea > 0
+        ? "Its center of mass lies outside the base, so it won't stand on its own and may tip while printing"
+        : 'It rests on a point or an edge of the build plate and needs a brim or supports to stay put'
+    );
+  } else if (report.tipAngle < MIN_TIP_ANGLE) {
+    issues.push(`It tips over when tilted by more than ${Math.round(report.tipAngle)}°`);
+  }
+  if (report.slender) {
+    issues.push(
+      `${report.height.toFixed(0)} mm tall on a base ${report.baseWidth.toFixed(1)} mm wide, so the nozzle may knock it loose late in the print`
+    );
+  }
+  return issues;
+}
+
+/**
+ * One-line stability summary, e.g. "Stands on its base, tips over beyond 32°"
+ */
+export function describeStability(report: StabilityReport): string {
+  return report.standsOnBase
+    ? `Stands on its base, tips over beyond ${Math.round(report.tipAngle)}°`
+    : "Doesn't stand on its base";
+}
+
+/**
+ * Convex hull (Andrew's monotone chain), counter-clockwise without collinear points
+ */
+function convexHull(points: Point2[]): Point2[] {
+  const sorted = [...points].sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+  if (sorted.length < 3) {
+    return sorted;
+  }
+  const lower: Point2[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+  const upper: Point2[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], sorted[i]) <= 0) upper.pop();
+    upper.push(sorted[i]);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+/**
+ * Distance from a point to the nearest edge of a convex polygon, negative outside it
+ */
+function distanceInside(polygon: Point2[], point: Point2): number {
+  let distance = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i], b = polygon[(i + 1) % polygon.length];
+    distance = Math.min(distance, cross(a, b, point) / Math.hypot(b[0] - a[0], b[1] - a[1]));
+  }
+  return distance;
+}
+
+/**
+ * Narrowest width of a convex polygon (rotating calipers)
+ */
+function minimumWidth(polygon: Point2[]): number {
+  const n = polygon.length;
+  if (n < 3) {
+    return 0;
+  }
+  let width = Infinity;
+  let far = 1;
+  for (let i = 0; i < n; i++) {
+    const a = polygon[i], b = polygon[(i + 1) % n];
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    // Advance to the vertex farthest from this edge
+    while (cross(a, b, polygon[(far + 1) % n]) > cross(a, b, polygon[far])) far = (far + 1) % n;
+    width = Math.min(width, cross(a, b, polygon[far]) / length);
+  }
+  return width;
+}
+
+function polygonArea(polygon: Point2[]): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i], b = polygon[(i + 1) % polygon.length];
+    area += a[0] * b[1] - b[0] * a[1];
+  }
+  return Math.abs(area) / 2;
+}
+
+// Twice the signed area of triangle abc, positive when c lies left of a→b
+function cross(a: Point2, b: Point2, c: Point2): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
@@ -0,0 +1,211 @@
+/**
+ * Overhang analysis: which downward faces need support in the print
+ * orientation (Z up, as sliced) and how much support material holds them up
+ */
+
+import { computeMeshBounds, type IndexedMesh } from '@/lib/mesh';
+
+/**
+ * Where the printer generates supports
+ * - auto: only under overhangs that can be supported from the build plate
+ * - everywhere: also on top of lower parts of the model
+ * - none: no supports; overhangs print unsupported
+ */
+export type SupportMode = 'auto' | 'everywhere' | 'none';
+
+export const SUPPORT_MODES: SupportMode[] = ['auto', 'everywhere', 'none'];
+
+// Faces tilted further than this from vertical need support (the usual FDM rule of thumb)
+export const DEFAULT_OVERHANG_ANGLE = 45; // degrees
+
+// Faces this close to the bottom of the part rest on the build plate; shared
+// with the orientation ranking and the stability check
+export const BED_TOLERANCE = 0.1; // mm
+
+export interface SupportAnalysis {
+  overhangAngle: number; // degrees from vertical used to pick overhangs
+  plateArea: number; // mm², projected area of overhangs supported from the build plate
+  plateVolume: number; // mm³ between those overhangs and the plate
+  modelArea: number; // mm², projected area of overhangs above lower parts of the model
+  modelVolume: number; // mm³ between those overhangs and the model below them
+}
+
+// Column grid for projecting overhangs downward; finer grids barely change
+// the volume but cost memory on large parts
+const MAX_GRID_CELLS = 512 * 512;
+const MIN_CELL_SIZE = 0.2; // mm
+
+// Surface hits are stored as (z, facing) pairs per column
+const FACING_UP = 1;
+const FACING_DOWN = 2;
+const FACING_OVERHANG = 3;
+
+/**
+ * Find the overhangs of a mesh and measure the support columns under them
+ *
+ * The part is sampled on a grid of vertical columns. Every column lists the
+ * surfaces it crosses; each overhang hit is supported down to the next
+ * upward surface below it, or to the build plate when there is none.
+ */
+export function analyzeSupports(mesh: IndexedMesh, overhangAngle = DEFAULT_OVERHANG_ANGLE): SupportAnalysis {
+  const analysis: SupportAnalysis = { overhangAngle, plateArea: 0, plateVolume: 0, modelArea: 0, modelVolume: 0 };
+  if (mesh.triangles.length === 0) {
+    return analysis;
+  }
+
+  const { min, max } = computeMeshBounds(mesh);
+  const width = max.x - min.x;
+  const depth = max.y - min.y;
+  const cellSize = Math.max(MIN_CELL_SIZE, Math.sqrt((width * depth) / MAX_GRID_CELLS));
+  const columns = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(depth / cellSize));
+  const cellArea = cellSize * cellSize;
+
+  // A downward face needs support when its normal points further down than this
+  const overhangNormalZ = Math.sin((overhangAngle * Math.PI) / 180);
+
+  // Two passes over the triangles: count the hits per column, then store them
+  const counts = new Uint32Array(columns * rows + 1);
+  rasterizeTriangles(mesh, min.x, min.y, cellSize, columns, rows, overhangNormalZ, (cell) => {
+    counts[cell + 1]++;
+  });
+  for (let cell = 1; cell < counts.length; cell++) {
+    counts[cell] += counts[cell - 1];
+  }
+  const hitZ = new Float32Array(counts[counts.length - 1]);
+  const hitFacing = new Uint8Array(hitZ.length);
+  const filled = counts.slice(0, -1);
+  rasterizeTriangles(mesh, min.x, min.y, cellSize, columns, rows, overhangNormalZ, (cell, z, facing) => {
+    const index = filled[cell]++;
+    hitZ[index] = z;
+    hitFacing[index] = facing;
+  });
+
+  const order: number[] = [];
+  for (let cell = 0; cell < columns * rows; cell++) {
+    const start = counts[cell];
+    const end = counts[cell + 1];
+    if (end === start) continue;
+
+    order.length = 0;
+    for (let index = start; index < end; index++) order.push(index);
+    order.sort((a, b) => hitZ[a] - hitZ[b]);
+
+    for (let i = 0; i < order.length; i++) {
+      const z = hitZ[order[i]];
+      if (hitFacing[order[i]] !== FACING_OVERHANG || z - min.z <= BED_TOLERANCE) continue;
+
+      // Nearest surface below; an upward face touching the overhang (two
+      // bodies stacked on each other) holds it up already
+      let below = i - 1;
+      let resting = false;
+      while (below >= 0 && z - hitZ[order[below]] <= BED_TOLERANCE) {
+        if (hitFacing[order[below]] === FACING_UP) resting = true;
+        below--;
+      }
+      if (resting) continue;
+
+      if (below < 0) {
+        analysis.plateArea += cellArea;
+        analysis.plateVolume += cellArea * (z - min.z);
+      } else {
+        analysis.modelArea += cellArea;
+        analysis.modelVolume += cellArea * (z - hitZ[order[below]]);
+      }
+    }
+  }
+
+  return analysis;
+}
+
+/**
+ * Scale an analysis of the unscaled mesh to a uniformly scaled part
+ */
+export function scaleSupportAnalysis(analysis: SupportAnalysis, scale: number): SupportAnalysis {
+  if (scale === 1) {
+    return analysis;
+  }
+  return {
+    overhangAngle: analysis.overhangAngle,
+    plateArea: analysis.plateArea * scale ** 2,
+    plateVolume: analysis.plateVolume * scale ** 3,
+    modelArea: analysis.modelArea * scale ** 2,
+    modelVolume: analysis.modelVolume * scale ** 3,
+  };
+}
+
+/**
+ * Supported overhang area (mm²) and support volume (mm³) for a support mode
+ */
+export function getSupportRegion(analysis: SupportAnalysis, mode: SupportMode): { area: number; volume: number } {
+  switch (mode) {
+    case 'none':
+      return { area: 0, volume: 0 };
+    case 'everywhere':
+      return {
+        area: analysis.plateArea + analysis.modelArea,
+        volume: analysis.plateVolume + analysis.modelVolume,
+      };
+    default:
+      return { area: analysis.plateArea, volume: analysis.plateVolume };
+  }
+}
+
+/**
+ * Project every non-vertical triangle onto the column grid and report the
+ * height and facing of the surface at each column centre it covers
+ */
+function rasterizeTriangles(
+  mesh: IndexedMesh,
+  originX: number,
+  originY: number,
+  cellSize: number,
+  columns: number,
+  rows: number,
+  overhangNormalZ: number,
+  visit: (cell: number, z: number, facing: number) => void
+): void {
+  const { vertices, triangles } = mesh;
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = triangles[t] * 3;
+    const b = triangles[t + 1] * 3;
+    const c = triangles[t + 2] * 3;
+    const ax = vertices[a], ay = vertices[a + 1], az = vertices[a + 2];
+    const bx = vertices[b], by = vertices[b + 1], bz = vertices[b + 2];
+    const cx = vertices[c], cy = vertices[c + 1], cz = vertices[c + 2];
+
+    // Twice the signed projected area; its sign tells up- from down-facing
+    const e1x = bx - ax, e1y = by - ay, e1z = bz - az;
+    const e2x = cx - ax, e2y = cy - ay, e2z = cz - az;
+    const normalX = e1y * e2z - e1z * e2y;
+    const normalY = e1z * e2x - e1x * e2z;
+    const normalZ = e1x * e2y - e1y * e2x;
+    if (Math.abs(normalZ) < 1e-12) continue; // vertical walls never cover a column
+
+    let facing = FACING_UP;
+    if (normalZ < 0) {
+      const length = Math.hypot(normalX, normalY, normalZ);
+      facing = -normalZ / length > overhangNormalZ ? FACING_OVERHANG : FACING_DOWN;
+    }
+
+    const firstColumn = Math.max(0, Math.ceil((Math.min(ax, bx, cx) - originX) / cellSize - 0.5));
+    const lastColumn = Math.min(columns - 1, Math.floor((Math.max(ax, bx, cx) - originX) / cellSize - 0.5));
+    const firstRow = Math.max(0, Math.ceil((Math.min(ay, by, cy) - originY) / cellSize - 0.5));
+    const lastRow = Math.min(rows - 1, Math.floor((Math.max(ay, by, cy) - originY) / cellSize - 0.5));
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      const y = originY + (row + 0.5) * cellSize;
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const x = originX + (column + 0.5) * cellSize;
+
+        // Barycentric coordinates of the column centre in the projected triangle
+        const u = ((x - ax) * e2y - (y - ay) * e2x) / normalZ;
+        const v = ((y - ay) * e1x - (x - ax) * e1y) / normalZ;
+        if (u < 0 || v < 0 || u + v > 1) continue;
+
+        visit(row * columns + column, az + u * e1z + v * e2z, facing);
+      }
+    }
+  }
+}
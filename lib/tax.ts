@@ -0,0 +1,46 @@
+/**
+ * Sales tax rules per location and the tax lines of a quote
+ */
+
+import type { PricingLocation } from '@/lib/pricing';
+
+export interface TaxRule {
+  name: string; // as printed on the quote, e.g. "HST (Ontario)"
+  rate: number; // fraction of the taxable amount
+  appliesToDelivery: boolean; // whether the delivery charge is taxable too
+}
+
+/**
+ * One tax charged on a quote, in the quote's currency
+ */
+export interface TaxLine extends TaxRule {
+  amount: number;
+}
+
+// Taxes each location collects; business customers with a tax ID can order tax-exempt
+export const LOCATION_TAX_RULES: Record<PricingLocation, TaxRule[]> = {
+  toronto: [{ name: 'HST (Ontario)', rate: 0.13, appliesToDelivery: true }],
+  // Separately stated delivery charges are exempt in California
+  sf: [{ name: 'Sales tax (San Francisco)', rate: 0.08625, appliesToDelivery: false }],
+};
+
+/**
+ * Tax lines for a manufacturing and delivery price, rounded to the cent
+ */
+export function calculateTaxes(rules: TaxRule[], manufacturingPrice: number, deliveryPrice: number): TaxLine[] {
+  return rules.map(({ name, rate, appliesToDelivery }) => {
+    const taxable = manufacturingPrice + (appliesToDelivery ? deliveryPrice : 0);
+    return { name, rate, appliesToDelivery, amount: Math.round(taxable * rate * 100) / 100 };
+  });
+}
+
+export function sumTaxes(taxes: TaxLine[]): number {
+  return taxes.reduce((total, tax) => total + tax.amount, 0);
+}
+
+/**
+ * Rate as printed next to the tax name, e.g. "13%" or "8.625%"
+ */
+export function formatTaxRate(rate: number): string {
+  return `${parseFloat((rate * 100).toFixed(3))}%`;
+}
@@ -0,0 +1,173 @@
+/**
+ * Wall-thickness and small-feature analysis: a ray cast from every face into
+ * the part measures the local wall thickness, one cast outward the gap to the
+ * next surface. Both use a three-mesh-bvh bounds tree, like the viewer's raycasting.
+ */
+
+import * as THREE from 'three';
+import { MeshBVH } from 'three-mesh-bvh';
+import { computeMeshBounds, type IndexedMesh } from '@/lib/mesh';
+import { DEFAULT_PRINTER, type PrinterProfile } from '@/lib/printers';
+
+/**
+ * Per-face measurements of the unscaled mesh; Infinity where the ray leaves
+ * the part without hitting anything (open meshes, outer faces)
+ */
+export interface ThicknessAnalysis {
+  thickness: Float32Array; // mm through the part along the inward normal, one value per triangle
+  gap: Float32Array; // mm of empty space along the outward normal to the next surface
+}
+
+/**
+ * Thin features of a part at its printed size
+ */
+export interface ThicknessFindings {
+  tinyFeatureArea: number; // mm² of faces on features thinner than the nozzle (pins, fins, fine text)
+  thinWallArea: number; // mm² of faces on walls thinner than the printer's full perimeters
+  narrowGapArea: number; // mm² of faces across gaps or holes narrower than the nozzle
+  minThickness: number | null; // mm, thinnest wall below the minimum wall thickness, null when none is
+}
+
+/**
+ * What a printer profile can print
+ */
+export interface ThicknessLimits {
+  minFeatureSize: number; // mm; narrower features cannot be extruded and gaps that narrow fuse shut
+  minWallThickness: number; // mm; thinner walls don't fit all perimeters and print weak
+  perimeters: number;
+}
+
+// One ray per face in each direction; skip the check on huge meshes
+const MAX_TRIANGLES_FOR_THICKNESS = 500_000;
+
+// Findings smaller than this are sliver faces at sharp edges, not features
+const MIN_REPORTED_AREA = 0.5; // mm²
+
+/**
+ * Thinnest feature and wall a printer prints: its nozzle, and its perimeters side by side
+ */
+export function getThicknessLimits(printer: PrinterProfile = DEFAULT_PRINTER): ThicknessLimits {
+  return {
+    minFeatureSize: printer.nozzleDiameter,
+    minWallThickness: printer.perimeters * printer.lineWidth,
+    perimeters: printer.perimeters,
+  };
+}
+
+/**
+ * Measure the wall thickness and outward gap at every face
+ * Returns null for meshes too large to check.
+ */
+export function analyzeThickness(mesh: IndexedMesh, onProgress?: (progress: number) => void): ThicknessAnalysis | null {
+  const triangleCount = mesh.triangles.length / 3;
+  if (triangleCount === 0 || triangleCount > MAX_TRIANGLES_FOR_THICKNESS) {
+    return null;
+  }
+
+  // Building the tree reorders the index in place, so it gets a copy
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(mesh.vertices, 3));
+  geometry.setIndex(new THREE.BufferAttribute(mesh.triangles.slice(), 1));
+  const bvh = new MeshBVH(geometry);
+
+  // Rays start on the face itself; ignore hits on it from rounding
+  const { min, max } = computeMeshBounds(mesh);
+  const near = 1e-6 * Math.hypot(max.x - min.x, max.y - min.y, max.z - min.z);
+
+  const thickness = new Float32Array(triangleCount).fill(Infinity);
+  const gap = new Float32Array(triangleCount).fill(Infinity);
+  const { vertices, triangles } = mesh;
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const edge = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const ray = new THREE.Ray();
+  const progressStep = Math.max(1, Math.floor(triangleCount / 20));
+
+  for (let face = 0; face < triangleCount; face++) {
+    a.fromArray(vertices, triangles[face * 3] * 3);
+    b.fromArray(vertices, triangles[face * 3 + 1] * 3);
+    c.fromArray(vertices, triangles[face * 3 + 2] * 3);
+    normal.subVectors(b, a).cross(edge.subVectors(c, a));
+    if (normal.lengthSq() === 0) continue; // degenerate
+    normal.normalize();
+
+    ray.origin.copy(a).add(b).add(c).divideScalar(3);
+    ray.direction.copy(normal).negate();
+    const inward = bvh.raycastFirst(ray, THREE.DoubleSide, near);
+    if (inward) thickness[face] = inward.distance;
+
+    ray.direction.copy(normal);
+    const outward = bvh.raycastFirst(ray, THREE.DoubleSide, near);
+    if (outward) gap[face] = outward.distance;
+
+    if (onProgress && face % progressStep === 0) {
+      onProgress(face / triangleCount);
+    }
+  }
+
+  return { thickness, gap };
+}
+
+/**
+ * Sum up the thin areas of the part at the given scale, for the printer it is quoted on
+ */
+export function summarizeThickness(
+  mesh: IndexedMesh,
+  analysis: ThicknessAnalysis,
+  scale: number,
+  printer: PrinterProfile = DEFAULT_PRINTER
+): ThicknessFindings {
+  const { vertices, triangles } = mesh;
+  const { minFeatureSize, minWallThickness } = getThicknessLimits(printer);
+  const findings: ThicknessFindings = { tinyFeatureArea: 0, thinWallArea: 0, narrowGapArea: 0, minThickness: null };
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+
+  for (let face = 0; face < analysis.thickness.length; face++) {
+    const thickness = analysis.thickness[face] * scale;
+    const gap = analysis.gap[face] * scale;
+    if (thickness >= minWallThickness && gap >= minFeatureSize) continue;
+
+    a.fromArray(vertices, triangles[face * 3] * 3);
+    b.fromArray(vertices, triangles[face * 3 + 1] * 3);
+    c.fromArray(vertices, triangles[face * 3 + 2] * 3);
+    const area = (c.sub(b).cross(a.sub(b)).length() / 2) * scale * scale;
+
+    if (thickness < minFeatureSize) findings.tinyFeatureArea += area;
+    else if (thickness < minWallThickness) findings.thinWallArea += area;
+    if (gap < minFeatureSize) findings.narrowGapArea += area;
+    if (thickness < minWallThickness && (findings.minThickness === null || thickness < findings.minThickness)) {
+      findings.minThickness = thickness;
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Human-readable findings, shared by the order form and the order email
+ */
+export function describeThicknessIssues(findings: ThicknessFindings, printer: PrinterProfile = DEFAULT_PRINTER): string[] {
+  const { minFeatureSize, minWallThickness, perimeters } = getThicknessLimits(printer);
+  const issues: string[] = [];
+  const area = (mm2: number) => (mm2 >= 100 ? `${(mm2 / 100).toFixed(1)} cm²` : `${mm2.toFixed(1)} mm²`);
+  const length = (mm: number) => `${parseFloat(mm.toFixed(2))} mm`;
+
+  if (findings.tinyFeatureArea >= MIN_REPORTED_AREA) {
+    issues.push(`${area(findings.tinyFeatureArea)} of features thinner than the ${length(minFeatureSize)} nozzle — pins, fins or text this fine won't print`);
+  }
+  if (findings.thinWallArea >= MIN_REPORTED_AREA) {
+    issues.push(`${area(findings.thinWallArea)} of walls thinner than ${length(minWallThickness)} (${perimeters} perimeters) — they print weak or with gaps`);
+  }
+  if (findings.narrowGapArea >= MIN_REPORTED_AREA) {
+    issues.push(`${area(findings.narrowGapArea)} around gaps or holes narrower than ${length(minFeatureSize)} — they will fuse shut`);
+  }
+  if (issues.length > 0 && findings.minThickness !== null) {
+    issues.push(`Thinnest wall: ${findings.minThickness.toFixed(2)} mm`);
+  }
+
+  return issues;
+}
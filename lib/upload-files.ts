@@ -0,0 +1,86 @@
+/**
+ * Turns the files a user drops or selects into the model files of an order
+ * ZIP archives are unpacked so a folder of parts can be uploaded in one go.
+ */
+
+import JSZip from 'jszip';
+import type { PrintEstimate } from '@/lib/3d-utils';
+import type { ModelDimensions } from '@/lib/build-volume';
+import type { MeshHealthReport } from '@/lib/mesh-analysis';
+import type { MeshRepairSummary } from '@/lib/mesh-repair';
+import { MODEL_FILE_ACCEPT, getFileExtension, isSupportedModelFile } from '@/lib/mesh-parser';
+import type { SlicerReport } from '@/lib/parsers/gcode';
+
+// Most files a single order can hold
+export const MAX_ORDER_FILES = 20;
+
+/**
+ * Value for the `accept` attribute of the order upload input
+ */
+export const UPLOAD_FILE_ACCEPT = `${MODEL_FILE_ACCEPT},.zip`;
+
+/**
+ * One file of a multi-file order, as sent to /api/send-order
+ */
+export interface OrderFileSummary {
+  fileName: string; // as uploaded; the attachment is the repaired model when `meshRepairs` is set
+  material: string;
+  color: string;
+  quantity: number;
+  modelUnit: string;
+  scalePercent: number;
+  dimensions: ModelDimensions | null; // mm, after scaling
+  fitsBuildVolume: boolean | null;
+  estimate: PrintEstimate;
+  meshHealth: MeshHealthReport | null;
+  meshRepairs: MeshRepairSummary | null;
+  slicerReport: SlicerReport | null;
+  orientation: string | null; // rotation into the print orientation, null when printed as uploaded
+  thinFeatures: string[]; // walls and features too thin to print at the ordered size
+}
+
+export interface CollectedFiles {
+  files: File[]; // model and G-code files, in upload order
+  skipped: string[]; // names of files that can't be quoted or didn't fit in the order
+}
+
+/**
+ * Collect the model files from an upload, unpacking ZIP archives
+ * At most `limit` files are returned; the rest are reported as skipped.
+ */
+export async function collectModelFiles(uploaded: File[], limit = MAX_ORDER_FILES): Promise<CollectedFiles> {
+  const files: File[] = [];
+  const skipped: string[] = [];
+
+  for (const file of uploaded) {
+    if (getFileExtension(file.name) !== 'zip') {
+      if (isSupportedModelFile(file.name) && files.length < limit) files.push(file);
+      else skipped.push(file.name);
+      continue;
+    }
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch (error) {
+      console.error(`Could not open ${file.name}:`, error);
+      skipped.push(file.name);
+      continue;
+    }
+
+    // macOS adds resource forks under __MACOSX; they share the real files' names
+    const entries = Object.values(zip.files)
+      .filter((entry) => !entry.dir && !entry.name.startsWith('__MACOSX/'))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const name = entry.name.split('/').pop() || entry.name;
+      if (!isSupportedModelFile(name) || files.length >= limit) {
+        skipped.push(name);
+        continue;
+      }
+      files.push(new File([await entry.async('blob')], name, { lastModified: entry.date.getTime() }));
+    }
+  }
+
+  return { files, skipped };
+}
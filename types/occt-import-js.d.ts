@@ -0,0 +1,44 @@
+/**
+ * Type declarations for occt-import-js (OpenCascade compiled to WebAssembly)
+ * https://github.com/kovacsv/occt-import-js
+ */
+declare module 'occt-import-js' {
+  export interface OcctImportParams {
+    linearUnit?: 'millimeter' | 'centimeter' | 'meter' | 'inch' | 'foot';
+    linearDeflectionType?: 'bounding_box_ratio' | 'absolute_value';
+    linearDeflection?: number;
+    angularDeflection?: number;
+  }
+
+  export interface OcctMesh {
+    name: string;
+    color?: [number, number, number];
+    attributes: {
+      position: { array: number[] };
+      normal?: { array: number[] };
+    };
+    index: { array: number[] };
+  }
+
+  export interface OcctNode {
+    name: string;
+    meshes: number[];
+    children: OcctNode[];
+  }
+
+  export interface OcctImportResult {
+    success: boolean;
+    root: OcctNode;
+    meshes: OcctMesh[];
+  }
+
+  export interface OcctModule {
+    ReadStepFile(content: Uint8Array, params: OcctImportParams | null): OcctImportResult;
+    ReadIgesFile(content: Uint8Array, params: OcctImportParams | null): OcctImportResult;
+    ReadBrepFile(content: Uint8Array, params: OcctImportParams | null): OcctImportResult;
+  }
+
+  export default function occtimportjs(options?: {
+    locateFile?: (path: string, prefix: string) => string;
+  }): Promise<OcctModule>;
+}